@@ -1,11 +1,29 @@
+export {
+    compileToFunction,
+    type RenderFunction,
+} from "./lib/compiler/Codegen.js";
+export type {
+    EscapeOption,
+    Escaper,
+} from "./lib/compiler/Escape.js";
 export {
     type AnyTagHandler,
     defineStructuralTag,
+    defineValueTag,
+    type ErrorMode,
     isStructural,
+    isValueTag,
+    type MappedRender,
+    type RenderIssue,
     type RenderOptions,
+    type RenderReport,
     render,
+    renderWithMap,
+    type StructuralRenderOptions,
     type StructuralTagHandler,
+    setLocal,
     stringify,
+    type ValueTagHandler,
     withLocals,
 } from "./lib/compiler/Render.js";
 export {
@@ -14,17 +32,39 @@ export {
     type RenderAsyncOptions,
     renderAsync,
 } from "./lib/compiler/RenderAsync.js";
+export { renderStream } from "./lib/compiler/RenderStream.js";
+export {
+    defineFormattingTag,
+    isFormattingTag,
+    SafeString,
+} from "./lib/compiler/SafeString.js";
+export {
+    deserialize,
+    SERIALIZED_VERSION,
+    type SerializeOptions,
+    serialize,
+} from "./lib/compiler/Serialize.js";
+export type { OutputSegment } from "./lib/compiler/SourceMap.js";
 export { Template } from "./lib/compiler/Template.js";
 export {
     AggregateParseError,
     MaxDepthError,
+    RenderAbortedError,
     RenderError,
+    RenderLimitError,
+    SerializationError,
     StrictModeError,
     TagParseError,
 } from "./lib/errors/Errors.js";
 export { Lexer } from "./lib/lexer/Lexer.js";
 export { Stream } from "./lib/lexer/Stream.js";
 export { parse } from "./lib/parser/Parser.js";
+export {
+    type FormatOptions,
+    format,
+    type PrintOptions,
+    print,
+} from "./lib/printer/Printer.js";
 export { pathResolver } from "./lib/resolvers/pathResolver.js";
 export {
     builtinTags,
@@ -36,21 +76,29 @@ export {
     ifTag,
     isTruthy,
     lengthTag,
+    letTag,
     lowerTag,
     lteTag,
     ltTag,
     neTag,
     notTag,
+    rawTag,
     replaceTag,
+    setTag,
+    switchTag,
     trimTag,
     unlessTag,
     upperTag,
 } from "./lib/tags/builtins.js";
 
 export {
+    collectPartialNames,
     collectTagNames,
     collectVariableNames,
     findNodes,
+    type Transformer,
+    type TransformResult,
+    transform,
     type VisitContext,
     type Visitor,
     walk,
@@ -59,14 +107,34 @@ export type {
     ArgumentNode,
     AsyncTagHandler,
     AsyncVariableResolver,
+    BinaryExpr,
+    CommentNode,
+    ComparisonOperator,
     CompiledTemplate,
+    CstArgument,
+    CstComment,
+    CstEscape,
+    CstKind,
+    CstNode,
+    CstTag,
+    CstText,
+    Expr,
+    ExpressionNode,
+    ExprKind,
+    IdentifierExpr,
     LexerOptions,
+    LiteralExpr,
+    LogicalExpr,
+    MacroDefinition,
     NodeKind,
     ParseDiagnostic,
     ParseResult,
     ParserOptions,
+    PartialSource,
+    PartialTemplate,
     Position,
     RenderContext,
+    RenderLimits,
     Span,
     TagHandler,
     TagNode,
@@ -74,10 +142,13 @@ export type {
     TextNode,
     Token,
     TokenKind,
+    UnaryExpr,
     VariableNode,
     VariableResolver,
 } from "./types.js";
 export {
+    CstKind as CstKindValues,
+    ExprKind as ExprKindValues,
     NodeKind as NodeKindValues,
     TokenKind as TokenKindValues,
 } from "./types.js";
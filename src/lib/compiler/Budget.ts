@@ -0,0 +1,120 @@
+import type { RenderLimits, Span, TagNode } from "../../types.js";
+import { RenderLimitError } from "../errors/Errors.js";
+
+export const MAX_RENDER_DEPTH = 64;
+export const MAX_INCLUDE_DEPTH = 10;
+
+/**
+ * Per-render counters for the `limits` option. One instance per render call,
+ * shared by every nested node, so the counts are totals for the whole render.
+ */
+export class RenderBudget {
+    public readonly maxDepth: number;
+    private readonly limits: RenderLimits;
+    private readonly deadline: number | undefined;
+    private tagCalls = 0;
+    private iterations = 0;
+    private streamed = 0;
+
+    public constructor(limits?: RenderLimits) {
+        if (limits === undefined) {
+            this.limits = {};
+            this.maxDepth = MAX_RENDER_DEPTH;
+            this.deadline = undefined;
+            return;
+        }
+        for (const [name, value] of Object.entries(limits)) {
+            if (value !== undefined && !(value >= 0)) {
+                throw new Error(`limits.${name} must be a non-negative number`);
+            }
+        }
+        this.limits = limits;
+        this.maxDepth = limits.maxDepth ?? MAX_RENDER_DEPTH;
+        this.deadline =
+            limits.maxTimeMs === undefined
+                ? undefined
+                : performance.now() + limits.maxTimeMs;
+    }
+
+    /** Called on entry to every node list. */
+    public enter(depth: number, span: Span | undefined): void {
+        if (depth > this.maxDepth) {
+            throw new RenderLimitError(
+                "maxDepth",
+                this.maxDepth,
+                span ? { span } : undefined,
+            );
+        }
+    }
+
+    /** Called before every node. */
+    public node(span: Span): void {
+        if (this.deadline !== undefined && performance.now() > this.deadline) {
+            throw new RenderLimitError(
+                "maxTimeMs",
+                this.limits.maxTimeMs as number,
+                { span },
+            );
+        }
+    }
+
+    /** Called before every tag handler invocation. */
+    public tagCall(node: TagNode): void {
+        const max = this.limits.maxTagCalls;
+        if (max !== undefined && ++this.tagCalls > max) {
+            throw new RenderLimitError("maxTagCalls", max, {
+                span: node.span,
+                tagName: node.name,
+            });
+        }
+    }
+
+    /** Called for every structural render() that binds locals. */
+    public iteration(node: TagNode): void {
+        const max = this.limits.maxIterations;
+        if (max !== undefined && ++this.iterations > max) {
+            throw new RenderLimitError("maxIterations", max, {
+                span: node.span,
+                tagName: node.name,
+            });
+        }
+    }
+
+    /** Called when a partial starts; `nesting` counts it and its includers. */
+    public include(nesting: number, node: TagNode): void {
+        const max = this.limits.maxIncludeDepth ?? MAX_INCLUDE_DEPTH;
+        if (nesting > max) {
+            throw new RenderLimitError("maxIncludeDepth", max, {
+                span: node.span,
+                tagName: node.name,
+            });
+        }
+    }
+
+    /** Called with accumulated output; `span` is the node that just added to it. */
+    public output(text: string, span: Span): void {
+        const max = this.limits.maxOutputLength;
+        // UTF-16 length bounds the code point count from above, so the exact
+        // count is only needed once the cheap check fails.
+        if (max === undefined || text.length <= max) return;
+        if (codePointLength(text) > max) {
+            throw new RenderLimitError("maxOutputLength", max, { span });
+        }
+    }
+
+    /** Like output(), for streams: counts `chunk` towards a running total. */
+    public stream(chunk: string, span: Span): void {
+        const max = this.limits.maxOutputLength;
+        if (max === undefined) return;
+        this.streamed += codePointLength(chunk);
+        if (this.streamed > max) {
+            throw new RenderLimitError("maxOutputLength", max, { span });
+        }
+    }
+}
+
+function codePointLength(text: string): number {
+    let n = 0;
+    for (const _ of text) n++;
+    return n;
+}
@@ -0,0 +1,516 @@
+import type {
+    ArgumentNode,
+    CompiledTemplate,
+    MacroDefinition,
+    RenderContext,
+    Span,
+    TagNode,
+    TemplateNode,
+    VariableNode,
+} from "../../types.js";
+import { NodeKind } from "../../types.js";
+import { walkPath } from "../resolvers/pathResolver.js";
+import { MAX_RENDER_DEPTH, RenderBudget } from "./Budget.js";
+import { resolveEscaper } from "./Escape.js";
+import { findMacro } from "./Macros.js";
+import { INCLUDE_TAG } from "./Partials.js";
+import {
+    type AnyTagHandler,
+    createCollector,
+    emitValue,
+    evaluateExpressionNode,
+    finishReport,
+    finishSyncTag,
+    isStructural,
+    isValueTag,
+    missingVariable,
+    NO_NAMED,
+    normalizeResolver,
+    type RenderOptions,
+    type RenderReport,
+    type RenderState,
+    recoverTag,
+    renderInclude,
+    renderMacro,
+    type StructuralRenderOptions,
+    stringify,
+    toRenderError,
+    trusted,
+    unescaped,
+    withLocals,
+} from "./Render.js";
+import { isFormattingTag } from "./SafeString.js";
+
+/**
+ * A template compiled to a closure tree. Call it with the same options you
+ * would pass to render(); like render(), it returns a RenderReport in collect
+ * mode.
+ */
+export interface RenderFunction<Ctx = unknown> {
+    (
+        options: RenderOptions<Ctx> & { readonly errorMode: "collect" },
+    ): RenderReport;
+    (options?: RenderOptions<Ctx> & { readonly errorMode?: "throw" }): string;
+    (options?: RenderOptions<Ctx>): string | RenderReport;
+}
+
+/**
+ * Closures take the per-render state as an argument rather than capturing it,
+ * so one compiled tree serves every call.
+ */
+type Emit<Ctx> = (ctx: RenderContext<Ctx>, rt: RenderState<Ctx>) => string;
+
+/** Like Emit, but yields a tag's result unstringified, for value tags. */
+type Evaluate<Ctx> = (ctx: RenderContext<Ctx>, rt: RenderState<Ctx>) => unknown;
+
+/**
+ * What a tree is compiled for. A `limited` tree checks the RenderBudget at
+ * every step, as render() does. The other kind skips the budget, which only
+ * renders without `limits` may use, and only when the template cannot nest
+ * past MAX_RENDER_DEPTH; macros and partials still render through the
+ * interpreter, which checks depth as usual.
+ */
+interface Target {
+    readonly limited: boolean;
+    readonly macros: Readonly<Record<string, MacroDefinition>> | undefined;
+}
+
+/** The budget of renders without `limits`; it keeps no counts then. */
+const UNLIMITED = new RenderBudget();
+
+/**
+ * Compile a parsed template into a specialized render function.
+ *
+ * The AST is walked once, up front: each node becomes a closure, adjacent
+ * text becomes one constant, variable lookups are inlined, each tag call
+ * site classifies its handler once and reuses that while the handler stays
+ * the same, and renders without `limits` skip the budget bookkeeping. The
+ * result has the same semantics as render() — locals, resolvers, structural
+ * tags, onMissingVariable/onMissingTag, limits, escaping and error wrapping —
+ * and is worth it for templates rendered many times.
+ *
+ * No `eval` or `Function` is involved, so it runs under strict CSPs.
+ */
+export function compileToFunction<Ctx = unknown>(
+    template: CompiledTemplate,
+): RenderFunction<Ctx> {
+    const { nodes, macros } = template;
+    const deep = nestingDepth(nodes) > MAX_RENDER_DEPTH;
+    // One tree for renders that check the budget and one for those that
+    // need not, each compiled on first use.
+    let checked: Emit<Ctx> | undefined;
+    let unchecked: Emit<Ctx> | undefined;
+
+    return ((options: RenderOptions<Ctx> = {}) => {
+        const limited = deep || options.limits !== undefined;
+        let body: Emit<Ctx>;
+        if (limited) {
+            checked ??= compileNodes<Ctx>(nodes, { limited, macros });
+            body = checked;
+        } else {
+            unchecked ??= compileNodes<Ctx>(nodes, { limited, macros });
+            body = unchecked;
+        }
+        const data = (options.data ?? ({} as Ctx)) as Ctx;
+        const rt: RenderState<Ctx> = {
+            resolver: normalizeResolver(options.variables),
+            tags: options.tags ?? {},
+            options,
+            budget: limited ? new RenderBudget(options.limits) : UNLIMITED,
+            report: createCollector(options.errorMode),
+            macros,
+        };
+        const escaper = resolveEscaper(options.escape);
+        const ctx: RenderContext<Ctx> = escaper
+            ? { data, locals: new Map(), depth: 0, escape: escaper }
+            : { data, locals: new Map(), depth: 0 };
+        const output = body(ctx, rt);
+        return rt.report ? finishReport(output, rt.report) : output;
+    }) as RenderFunction<Ctx>;
+}
+
+/** The deepest `ctx.depth` a node list inside `nodes` renders at. */
+function nestingDepth(nodes: readonly TemplateNode[]): number {
+    let max = 0;
+    for (const node of nodes) {
+        if (node.kind !== NodeKind.Tag) continue;
+        const args = node.named
+            ? [...node.args, ...Object.values(node.named)]
+            : node.args;
+        for (const arg of args) {
+            max = Math.max(max, 1 + nestingDepth(arg.nodes));
+        }
+    }
+    return max;
+}
+
+/** A compiled node: text as its constant output, anything else a closure. */
+type Part<Ctx> = string | Emit<Ctx>;
+
+function compileNodes<Ctx>(
+    nodes: readonly TemplateNode[],
+    target: Target,
+    parts: readonly Part<Ctx>[] = nodes.map((n) => compilePart<Ctx>(n, target)),
+): Emit<Ctx> {
+    if (!target.limited) return concat(parts);
+    const spans = nodes.map((n) => n.span);
+    const firstSpan = spans[0];
+
+    return (ctx, rt) => {
+        rt.budget.enter(ctx.depth, firstSpan);
+        let out = "";
+        for (let i = 0; i < parts.length; i++) {
+            const span = spans[i] as Span;
+            rt.budget.node(span);
+            const part = parts[i] as Part<Ctx>;
+            out += typeof part === "string" ? part : part(ctx, rt);
+            rt.budget.output(out, span);
+        }
+        return out;
+    };
+}
+
+/** Join parts without budget checks, merging adjacent constants first. */
+function concat<Ctx>(parts: readonly Part<Ctx>[]): Emit<Ctx> {
+    const merged: Part<Ctx>[] = [];
+    for (const part of parts) {
+        const last = merged.at(-1);
+        if (part === "") continue;
+        if (typeof part === "string" && typeof last === "string") {
+            merged[merged.length - 1] = last + part;
+        } else {
+            merged.push(part);
+        }
+    }
+    const [first, second] = merged;
+    if (first === undefined) return () => "";
+    if (typeof first === "string") {
+        if (second === undefined) return () => first;
+    } else if (second === undefined) {
+        return first;
+    }
+    return (ctx, rt) => {
+        let out = "";
+        for (let i = 0; i < merged.length; i++) {
+            const part = merged[i] as Part<Ctx>;
+            out += typeof part === "string" ? part : part(ctx, rt);
+        }
+        return out;
+    };
+}
+
+function compilePart<Ctx>(node: TemplateNode, target: Target): Part<Ctx> {
+    switch (node.kind) {
+        case NodeKind.Text:
+            return node.value;
+        case NodeKind.Variable:
+            return compileVariable<Ctx>(node);
+        case NodeKind.Tag:
+            return emitTag(compileTag<Ctx>(node, target));
+        case NodeKind.Comment:
+            return "";
+        case NodeKind.Expression:
+            return (ctx, rt) =>
+                emitValue(evaluateExpressionNode(node, ctx, rt), ctx.escape);
+    }
+}
+
+function emitTag<Ctx>(evaluate: Evaluate<Ctx>): Emit<Ctx> {
+    return (ctx, rt) => emitValue(evaluate(ctx, rt), ctx.escape);
+}
+
+/** `{name}`, rendered as renderVariable() would. */
+function compileVariable<Ctx>(node: VariableNode): Emit<Ctx> {
+    const lookup = compileLookup<Ctx>(node);
+    return (ctx, rt) => {
+        const value = lookup(ctx, rt);
+        if (value === undefined) return missingVariable(node, ctx, rt) ?? "";
+        if (typeof value !== "string") return emitValue(value, ctx.escape);
+        return ctx.escape ? ctx.escape(value) : value;
+    };
+}
+
+/**
+ * lookupVariable() for one name, with the dotted path split once: locals
+ * first, then the resolver. Undefined if missing.
+ */
+function compileLookup<Ctx>(node: VariableNode): Evaluate<Ctx> {
+    const { name } = node;
+    const dot = name.indexOf(".");
+    const root = dot > 0 ? name.slice(0, dot) : undefined;
+    const path = name.slice(dot + 1);
+    return (ctx, rt) => {
+        const { locals } = ctx;
+        if (locals.size > 0) {
+            const local = locals.get(name);
+            if (local !== undefined) return local;
+            const base = root === undefined ? undefined : locals.get(root);
+            if (base !== undefined) {
+                const value = walkPath(base, path);
+                if (value !== undefined) return value;
+            }
+        }
+        const value = rt.resolver?.(name, ctx);
+        return value === null ? undefined : value;
+    };
+}
+
+/**
+ * An argument compiled both ways: rendered to a string for plain tags, and
+ * evaluated for value tags. A lone tag is compiled once and shared.
+ */
+interface CompiledArg<Ctx> {
+    readonly emit: Emit<Ctx>;
+    readonly value: Evaluate<Ctx>;
+}
+
+function compileArg<Ctx>(arg: ArgumentNode, target: Target): CompiledArg<Ctx> {
+    const only = arg.nodes.length === 1 ? arg.nodes[0] : undefined;
+    if (
+        only === undefined ||
+        only.kind === NodeKind.Text ||
+        only.kind === NodeKind.Comment
+    ) {
+        const emit = compileNodes<Ctx>(arg.nodes, target);
+        return { emit, value: emit };
+    }
+    const span = only.span;
+    const { limited } = target;
+    if (only.kind === NodeKind.Tag) {
+        const evaluate = compileTag<Ctx>(only, target);
+        return {
+            emit: compileNodes<Ctx>(arg.nodes, target, [emitTag(evaluate)]),
+            value: limited
+                ? (ctx, rt) => {
+                      rt.budget.enter(ctx.depth, span);
+                      rt.budget.node(span);
+                      const value = evaluate(ctx, rt);
+                      if (typeof value === "string") {
+                          rt.budget.output(value, span);
+                      }
+                      return value;
+                  }
+                : evaluate,
+        };
+    }
+    if (only.kind === NodeKind.Expression) {
+        return {
+            emit: compileNodes<Ctx>(arg.nodes, target),
+            value: (ctx, rt) => {
+                if (limited) {
+                    rt.budget.enter(ctx.depth, span);
+                    rt.budget.node(span);
+                }
+                return evaluateExpressionNode(only, ctx, rt);
+            },
+        };
+    }
+    const lookup = compileLookup<Ctx>(only);
+    return {
+        emit: compileNodes<Ctx>(arg.nodes, target),
+        value: (ctx, rt) => {
+            if (limited) {
+                rt.budget.enter(ctx.depth, span);
+                rt.budget.node(span);
+            }
+            const value = lookup(ctx, rt);
+            return value !== undefined ? value : missingVariable(only, ctx, rt);
+        },
+    };
+}
+
+function compileTag<Ctx>(node: TagNode, target: Target): Evaluate<Ctx> {
+    const args = node.args;
+    const compiledArgs = args.map((a) => compileArg<Ctx>(a, target));
+    const named = node.named ? Object.entries(node.named) : [];
+    const compiledNamed = named.map(
+        ([key, a]) => [key, compileArg<Ctx>(a, target)] as const,
+    );
+    const { limited } = target;
+
+    // Each takes the context the arguments render in, a level below the tag.
+    const evalArgs = (
+        argCtx: RenderContext<Ctx>,
+        rt: RenderState<Ctx>,
+    ): string[] => {
+        const out = new Array<string>(compiledArgs.length);
+        for (let i = 0; i < compiledArgs.length; i++) {
+            out[i] = (compiledArgs[i] as CompiledArg<Ctx>).emit(argCtx, rt);
+        }
+        return out;
+    };
+
+    const evalValues = (
+        argCtx: RenderContext<Ctx>,
+        rt: RenderState<Ctx>,
+    ): unknown[] => {
+        const out = new Array<unknown>(compiledArgs.length);
+        for (let i = 0; i < compiledArgs.length; i++) {
+            out[i] = (compiledArgs[i] as CompiledArg<Ctx>).value(argCtx, rt);
+        }
+        return out;
+    };
+
+    const evalNamed = (
+        argCtx: RenderContext<Ctx>,
+        rt: RenderState<Ctx>,
+    ): Readonly<Record<string, string>> => {
+        if (compiledNamed.length === 0) return NO_NAMED;
+        const out: Record<string, string> = Object.create(null);
+        for (const [key, c] of compiledNamed) out[key] = c.emit(argCtx, rt);
+        return out;
+    };
+
+    const evalNamedValues = (
+        argCtx: RenderContext<Ctx>,
+        rt: RenderState<Ctx>,
+    ): Readonly<Record<string, unknown>> => {
+        if (compiledNamed.length === 0) return NO_NAMED;
+        const out: Record<string, unknown> = Object.create(null);
+        for (const [key, c] of compiledNamed) out[key] = c.value(argCtx, rt);
+        return out;
+    };
+
+    // Structural handlers hand back the ArgumentNode they want rendered; map
+    // it to its closure by identity. Arguments from elsewhere (a handler
+    // synthesizing its own nodes) are compiled on first use, with the
+    // budget checked as their depth is not known up front.
+    const lookupArg = (arg: ArgumentNode): CompiledArg<Ctx> => {
+        const i = args.indexOf(arg);
+        if (i !== -1) return compiledArgs[i] as CompiledArg<Ctx>;
+        const j = named.findIndex(([, a]) => a === arg);
+        if (j !== -1)
+            return (compiledNamed[j] as [string, CompiledArg<Ctx>])[1];
+        return compileArg<Ctx>(arg, { ...target, limited: true });
+    };
+
+    /** A failing call renders as recoverTag() decides, like render(). */
+    const guard =
+        (call: Evaluate<Ctx>): Evaluate<Ctx> =>
+        (ctx, rt) => {
+            try {
+                return call(ctx, rt);
+            } catch (err) {
+                return trusted(
+                    recoverTag(
+                        node,
+                        toRenderError(node, err),
+                        ctx,
+                        rt.report,
+                        rt.options.errorPlaceholder,
+                    ),
+                    ctx,
+                );
+            }
+        };
+
+    // Macros, like partials, render through the interpreter.
+    const macro = findMacro(target.macros, node.name);
+    const missing: Evaluate<Ctx> = macro
+        ? (ctx, rt) => renderMacro(node, ctx, rt, macro)
+        : (ctx, rt) => {
+              const base = unescaped(ctx);
+              const evaled = evalArgs({ ...base, depth: base.depth + 1 }, rt);
+              rt.report?.missingTags.push({ name: node.name, span: node.span });
+              const fallback = rt.options.onMissingTag?.(
+                  node.name,
+                  evaled,
+                  ctx,
+              );
+              return trusted(fallback ?? "", ctx);
+          };
+
+    /** The call for `handler`, with its kind worked out once. */
+    const bind = (handler: AnyTagHandler<Ctx> | undefined): Evaluate<Ctx> => {
+        if (!handler) return missing;
+        if (isStructural(handler)) {
+            return guard((ctx, rt) => {
+                // Arguments rendered without locals share one context a
+                // level down, escaped or raw, made on first use.
+                let below: RenderContext<Ctx> | undefined;
+                let belowRaw: RenderContext<Ctx> | undefined;
+                const deeper = (raw: boolean): RenderContext<Ctx> => {
+                    if (raw && ctx.escape) {
+                        belowRaw ??= {
+                            ...unescaped(ctx),
+                            depth: ctx.depth + 1,
+                        };
+                        return belowRaw;
+                    }
+                    below ??= { ...ctx, depth: ctx.depth + 1 };
+                    return below;
+                };
+                const renderArgFn = (
+                    arg: ArgumentNode,
+                    locals?: Record<string, unknown>,
+                    opts?: StructuralRenderOptions,
+                ): string => {
+                    if (locals && limited) rt.budget.iteration(node);
+                    const raw = opts?.raw === true;
+                    const argCtx = locals
+                        ? withLocals(raw ? unescaped(ctx) : ctx, locals)
+                        : deeper(raw);
+                    return lookupArg(arg).emit(argCtx, rt);
+                };
+                const evaluateFn = (
+                    arg: ArgumentNode,
+                    locals?: Record<string, unknown>,
+                ): unknown => {
+                    if (locals && limited) rt.budget.iteration(node);
+                    const argCtx = locals
+                        ? withLocals(unescaped(ctx), locals)
+                        : deeper(true);
+                    return lookupArg(arg).value(argCtx, rt);
+                };
+                if (limited) rt.budget.tagCall(node);
+                const result = finishSyncTag(
+                    node,
+                    handler.handle(
+                        args,
+                        ctx,
+                        renderArgFn,
+                        evaluateFn,
+                        node.named ?? NO_NAMED,
+                    ),
+                );
+                return trusted(stringify(result), ctx);
+            });
+        }
+        if (isValueTag(handler)) {
+            return guard((ctx, rt) => {
+                const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+                const values = evalValues(argCtx, rt);
+                const named = evalNamedValues(argCtx, rt);
+                if (limited) rt.budget.tagCall(node);
+                return finishSyncTag(node, handler.handle(values, ctx, named));
+            });
+        }
+        const formatting = isFormattingTag(handler);
+        return guard((ctx, rt) => {
+            const base = formatting ? ctx : unescaped(ctx);
+            const argCtx = { ...base, depth: base.depth + 1 };
+            const evaled = evalArgs(argCtx, rt);
+            const named = evalNamed(argCtx, rt);
+            if (limited) rt.budget.tagCall(node);
+            const result = finishSyncTag(node, handler(evaled, ctx, named));
+            return formatting ? trusted(stringify(result), ctx) : result;
+        });
+    };
+
+    const include = node.name === INCLUDE_TAG;
+    let bound: AnyTagHandler<Ctx> | undefined;
+    let call = missing;
+
+    return (ctx, rt) => {
+        // Partials render through the interpreter; they are not compiled.
+        if (include && rt.options.partials) {
+            return renderInclude(node, ctx, rt, rt.options.partials);
+        }
+        const handler = rt.tags[node.name];
+        if (handler !== bound) {
+            bound = handler;
+            call = bind(handler);
+        }
+        return call(ctx, rt);
+    };
+}
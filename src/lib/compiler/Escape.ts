@@ -0,0 +1,34 @@
+import {
+    escapeDiscord,
+    escapeDiscordMarkdown,
+    escapeHtml,
+} from "../discord/discord.js";
+
+/** Turns untrusted text into text that is safe in the output format. */
+export type Escaper = (value: string) => string;
+
+/**
+ * The `escape` render option: a built-in mode or a custom escaper.
+ *
+ *   - "discord":  markdown and mentions (escapeDiscord)
+ *   - "markdown": markdown only (escapeDiscordMarkdown)
+ *   - "html":     escapeHtml
+ *   - "none":     no escaping (the default)
+ */
+export type EscapeOption = "discord" | "html" | "markdown" | "none" | Escaper;
+
+export function resolveEscaper(
+    option: EscapeOption | undefined,
+): Escaper | undefined {
+    if (option === undefined || option === "none") return undefined;
+    if (typeof option === "function") return option;
+    switch (option) {
+        case "discord":
+            return escapeDiscord;
+        case "markdown":
+            return escapeDiscordMarkdown;
+        case "html":
+            return escapeHtml;
+    }
+    throw new Error(`Unknown escape mode '${String(option)}'`);
+}
@@ -0,0 +1,125 @@
+import type {
+    Awaitable,
+    ComparisonOperator,
+    Expr,
+    IdentifierExpr,
+} from "../../types.js";
+import { ExprKind } from "../../types.js";
+import { stringify } from "./Render.js";
+
+/**
+ * Truthiness rules for tag arguments.
+ * Empty string, "0", "false", "null", "undefined", "no" are falsy. Anything else is truthy.
+ */
+export function isTruthy(value: string): boolean {
+    if (value.length === 0) return false;
+    const lower = value.trim().toLowerCase();
+    return (
+        lower !== "0" &&
+        lower !== "false" &&
+        lower !== "null" &&
+        lower !== "undefined" &&
+        lower !== "no"
+    );
+}
+
+/**
+ * Evaluate an expression tree to a value: a boolean for operators, the value
+ * itself for a lone literal or variable. `lookup` resolves variables; when it
+ * returns a promise, so does this, so the async renderer shares the walk.
+ *
+ * Values are tested with isTruthy() on their string form, like {if}
+ * arguments. `==` and `!=` compare numerically when both sides are numbers or
+ * numeric strings, and by string form otherwise. Ordering compares numbers,
+ * or two strings by code unit; anything else is false.
+ */
+export function evaluateExpression(
+    expr: Expr,
+    lookup: (expr: IdentifierExpr) => Awaitable<unknown>,
+): Awaitable<unknown> {
+    switch (expr.kind) {
+        case ExprKind.Literal:
+            return expr.value;
+        case ExprKind.Identifier:
+            return lookup(expr);
+        case ExprKind.Unary:
+            return then(
+                evaluateExpression(expr.argument, lookup),
+                (v) => !truthy(v),
+            );
+        case ExprKind.Logical:
+            return then(evaluateExpression(expr.left, lookup), (left) => {
+                const l = truthy(left);
+                // Short-circuit: the right side is not even looked up.
+                if (expr.operator === "&&" ? !l : l) return l;
+                return then(evaluateExpression(expr.right, lookup), truthy);
+            });
+        case ExprKind.Binary:
+            return then(evaluateExpression(expr.left, lookup), (left) =>
+                then(evaluateExpression(expr.right, lookup), (right) =>
+                    compare(expr.operator, left, right),
+                ),
+            );
+    }
+}
+
+function truthy(value: unknown): boolean {
+    return isTruthy(stringify(value));
+}
+
+function compare(
+    operator: ComparisonOperator,
+    a: unknown,
+    b: unknown,
+): boolean {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    const numeric = x !== undefined && y !== undefined;
+    switch (operator) {
+        case "==":
+            return numeric ? x === y : stringify(a) === stringify(b);
+        case "!=":
+            return numeric ? x !== y : stringify(a) !== stringify(b);
+    }
+    let l: number | string;
+    let r: number | string;
+    if (numeric) {
+        l = x;
+        r = y;
+    } else if (typeof a === "string" && typeof b === "string") {
+        l = a;
+        r = b;
+    } else {
+        return false;
+    }
+    switch (operator) {
+        case "<":
+            return l < r;
+        case "<=":
+            return l <= r;
+        case ">":
+            return l > r;
+        default:
+            return l >= r;
+    }
+}
+
+/** A finite number, or a string that reads as one; otherwise undefined. */
+function toNumber(value: unknown): number | undefined {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : undefined;
+    }
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+}
+
+function then<T>(
+    value: Awaitable<T>,
+    fn: (resolved: T) => Awaitable<unknown>,
+): Awaitable<unknown> {
+    if (value && typeof (value as Promise<T>).then === "function") {
+        return (value as Promise<T>).then(fn);
+    }
+    return fn(value as T);
+}
@@ -0,0 +1,40 @@
+import type { MacroDefinition, RenderContext, TagNode } from "../../types.js";
+import { RenderError } from "../errors/Errors.js";
+import { withLocals } from "./Render.js";
+
+/** Macro `name` of the template being rendered, if it defines one. */
+export function findMacro(
+    macros: Readonly<Record<string, MacroDefinition>> | undefined,
+    name: string,
+): MacroDefinition | undefined {
+    return macros && Object.hasOwn(macros, name) ? macros[name] : undefined;
+}
+
+/**
+ * The context a macro's body renders in: the calling context plus the params
+ * as locals, bound to the call's arguments by position or by `key=`. Missing
+ * arguments bind as "". Throws when the macro is already rendering further
+ * out; parse() reports such cycles, but a template can be built by hand.
+ */
+export function macroContext<Ctx>(
+    node: TagNode,
+    macro: MacroDefinition,
+    ctx: RenderContext<Ctx>,
+    values: readonly unknown[],
+    named: Readonly<Record<string, unknown>>,
+): RenderContext<Ctx> {
+    const chain = ctx.macros ?? [];
+    if (chain.includes(macro.name)) {
+        throw new RenderError(
+            `Macro '${macro.name}' calls itself: ${[...chain, macro.name].join(" → ")}`,
+            { tagName: node.name, span: node.span },
+        );
+    }
+    const locals: Record<string, unknown> = {};
+    macro.params.forEach((param, i) => {
+        locals[param] = Object.hasOwn(named, param)
+            ? named[param]
+            : (values[i] ?? "");
+    });
+    return { ...withLocals(ctx, locals), macros: [...chain, macro.name] };
+}
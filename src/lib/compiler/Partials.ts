@@ -0,0 +1,87 @@
+import type {
+    Awaitable,
+    CompiledTemplate,
+    PartialSource,
+    PartialTemplate,
+    RenderContext,
+    TagNode,
+} from "../../types.js";
+import { RenderError } from "../errors/Errors.js";
+import type { RenderBudget } from "./Budget.js";
+import { type ReportCollector, withLocals } from "./Render.js";
+
+/** The tag that renders a partial while the `partials` option is set. */
+export const INCLUDE_TAG = "include";
+
+/**
+ * Find partial `name` in a record (own properties only) or through a loader.
+ * Undefined when there is none; a promise when the loader returns one.
+ */
+export function loadPartial<Ctx>(
+    source: PartialSource<Ctx>,
+    name: string,
+    ctx: RenderContext<Ctx>,
+): Awaitable<CompiledTemplate | undefined> {
+    if (typeof source !== "function") {
+        return toCompiled(
+            Object.hasOwn(source, name) ? source[name] : undefined,
+        );
+    }
+    const loaded = source(name, ctx);
+    if (loaded && typeof (loaded as Promise<unknown>).then === "function") {
+        return (loaded as Promise<PartialTemplate | undefined>).then(
+            toCompiled,
+        );
+    }
+    return toCompiled(loaded as PartialTemplate | undefined);
+}
+
+function toCompiled(
+    partial: PartialTemplate | undefined,
+): CompiledTemplate | undefined {
+    if (!partial) return undefined;
+    return "compiled" in partial ? partial.compiled : partial;
+}
+
+/**
+ * The context partial `name` renders in: the including context plus the
+ * include's named arguments as locals, one level deeper. Throws when the
+ * partial is already rendering further out (a cycle) or the includes nest
+ * deeper than `maxIncludeDepth`.
+ */
+export function partialContext<Ctx>(
+    node: TagNode,
+    name: string,
+    ctx: RenderContext<Ctx>,
+    locals: Readonly<Record<string, unknown>>,
+    budget: RenderBudget,
+): RenderContext<Ctx> {
+    const chain = ctx.partials ?? [];
+    if (chain.includes(name)) {
+        throw new RenderError(
+            `Partial '${name}' includes itself: ${[...chain, name].join(" → ")}`,
+            { tagName: node.name, span: node.span },
+        );
+    }
+    budget.include(chain.length + 1, node);
+    return { ...withLocals(ctx, locals), partials: [...chain, name] };
+}
+
+/** Record a missing partial and ask onMissingPartial for a substitute. */
+export function missingPartial<Ctx>(
+    node: TagNode,
+    name: string,
+    ctx: RenderContext<Ctx>,
+    state: {
+        readonly report: ReportCollector | undefined;
+        readonly options: {
+            readonly onMissingPartial?: (
+                name: string,
+                ctx: RenderContext<Ctx>,
+            ) => string | undefined;
+        };
+    },
+): string {
+    state.report?.missingPartials.push({ name, span: node.span });
+    return state.options.onMissingPartial?.(name, ctx) ?? "";
+}
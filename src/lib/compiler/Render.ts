@@ -1,16 +1,41 @@
 import type {
     ArgumentNode,
     CompiledTemplate,
+    ExpressionNode,
+    MacroDefinition,
+    PartialSource,
     RenderContext,
+    RenderLimits,
+    Span,
     TagHandler,
     TagNode,
     TemplateNode,
+    VariableNode,
     VariableResolver,
 } from "../../types.js";
 import { type Awaitable, NodeKind } from "../../types.js";
-import { RenderError } from "../errors/Errors.js";
-
-export const MAX_RENDER_DEPTH = 64;
+import {
+    RenderAbortedError,
+    RenderError,
+    RenderLimitError,
+} from "../errors/Errors.js";
+import { walkPath } from "../resolvers/pathResolver.js";
+import { RenderBudget } from "./Budget.js";
+import { type EscapeOption, type Escaper, resolveEscaper } from "./Escape.js";
+import { evaluateExpression } from "./Evaluate.js";
+import { findMacro, macroContext } from "./Macros.js";
+import {
+    INCLUDE_TAG,
+    loadPartial,
+    missingPartial,
+    partialContext,
+} from "./Partials.js";
+import { isFormattingTag, SafeString } from "./SafeString.js";
+import {
+    nodeSegments,
+    type OutputSegment,
+    type RenderedPiece,
+} from "./SourceMap.js";
 
 /**
  * Structural tag handler — receives the raw argument AST nodes plus a
@@ -19,6 +44,16 @@ export const MAX_RENDER_DEPTH = 64;
  *
  * Return value may be a promise, in which case the async renderer awaits it.
  * The sync renderer rejects promise returns with a clear error.
+ *
+ * Under auto-escaping, `render` escapes the values inside the argument and the
+ * handler's result is spliced in as-is: it is assumed to be built from
+ * rendered arguments. Pass `{ raw: true }` for arguments that are inputs
+ * rather than output.
+ *
+ * `evaluate` returns an argument the way a value tag receives it — {each}
+ * uses it to iterate a real array — and is never escaped.
+ *
+ * `named` holds the `key=value` arguments, unrendered like `args`.
  */
 export interface StructuralTagHandler<Ctx = unknown> {
     readonly structural: true;
@@ -28,13 +63,58 @@ export interface StructuralTagHandler<Ctx = unknown> {
         render: (
             arg: ArgumentNode,
             withLocals?: Record<string, unknown>,
+            options?: StructuralRenderOptions,
         ) => Awaitable<string>,
+        evaluate: (
+            arg: ArgumentNode,
+            withLocals?: Record<string, unknown>,
+        ) => Awaitable<unknown>,
+        named: Readonly<Record<string, ArgumentNode>>,
     ): Awaitable<string | number | boolean | null | undefined>;
 }
 
+export interface StructuralRenderOptions {
+    /** Render without auto-escaping. */
+    readonly raw?: boolean;
+}
+
+/**
+ * Value tag handler — receives its arguments as values instead of strings.
+ * An argument made of a single `{var}` or `{tag:...}` arrives exactly as
+ * resolved or returned, so arrays, numbers and objects survive; any other
+ * argument is rendered to a string first. The result may be any value too:
+ * outer value tags and {each} consume it unchanged, output stringifies it.
+ * `key=value` arguments arrive the same way in `named`.
+ */
+export interface ValueTagHandler<Ctx = unknown> {
+    readonly values: true;
+    handle(
+        args: readonly unknown[],
+        ctx: RenderContext<Ctx>,
+        named: Readonly<Record<string, unknown>>,
+    ): Awaitable<unknown>;
+}
+
+/** Passed as `named` to every tag without `key=value` arguments. */
+export const NO_NAMED: Readonly<Record<string, never>> = Object.freeze(
+    Object.create(null),
+);
+
+/** Map a tag's named arguments, keeping the null-prototype record shape. */
+function mapNamed<T>(
+    node: TagNode,
+    fn: (arg: ArgumentNode) => T,
+): Readonly<Record<string, T>> {
+    if (!node.named) return NO_NAMED;
+    const out: Record<string, T> = Object.create(null);
+    for (const [key, arg] of Object.entries(node.named)) out[key] = fn(arg);
+    return out;
+}
+
 export type AnyTagHandler<Ctx = unknown> =
     | TagHandler<Ctx>
-    | StructuralTagHandler<Ctx>;
+    | StructuralTagHandler<Ctx>
+    | ValueTagHandler<Ctx>;
 
 export function isStructural<Ctx>(
     h: AnyTagHandler<Ctx>,
@@ -52,6 +132,22 @@ export function defineStructuralTag<Ctx = unknown>(
     return { structural: true, handle };
 }
 
+export function isValueTag<Ctx>(
+    h: AnyTagHandler<Ctx>,
+): h is ValueTagHandler<Ctx> {
+    return (
+        typeof h === "object" &&
+        h !== null &&
+        (h as ValueTagHandler<Ctx>).values === true
+    );
+}
+
+export function defineValueTag<Ctx = unknown>(
+    handle: ValueTagHandler<Ctx>["handle"],
+): ValueTagHandler<Ctx> {
+    return { values: true, handle };
+}
+
 export interface RenderOptions<Ctx = unknown> {
     readonly data?: Ctx;
     readonly variables?: VariableResolver<Ctx> | Record<string, unknown>;
@@ -72,86 +168,384 @@ export interface RenderOptions<Ctx = unknown> {
         args: readonly string[],
         ctx: RenderContext<Ctx>,
     ) => string | undefined;
+    /**
+     * Partials for `{include:name}`, as a record of templates or a loader.
+     * While set, `{include}` renders the named partial in the current context
+     * instead of calling a tag; `key=value` arguments become its locals.
+     */
+    readonly partials?: PartialSource<Ctx>;
+    /**
+     * Called when `{include}` names a partial that cannot be found. Defaults
+     * to "".
+     */
+    readonly onMissingPartial?: (
+        name: string,
+        ctx: RenderContext<Ctx>,
+    ) => string | undefined;
+    /**
+     * Resource budget for this render: output size, tag calls, loop
+     * iterations, wall-clock time and nesting depth.
+     */
+    readonly limits?: RenderLimits;
+    /**
+     * "throw" (default): the first failing tag aborts the render with a
+     * RenderError. "collect": failing tags are replaced by `errorPlaceholder`,
+     * the render keeps going, and a RenderReport is returned instead of a
+     * string. Limit and abort errors always throw.
+     */
+    readonly errorMode?: ErrorMode;
+    /** Substituted for a failing tag in collect mode. Default: "". */
+    readonly errorPlaceholder?:
+        | string
+        | ((error: RenderError, ctx: RenderContext<Ctx>) => string);
+    /**
+     * Auto-escape every variable value and plain tag result for the output
+     * format. SafeStrings, formatting tags, structural tags and {raw:...} are
+     * not escaped; neither is template text. Default: "none".
+     */
+    readonly escape?: EscapeOption;
+}
+
+export type ErrorMode = "throw" | "collect";
+
+/**
+ * Something that went wrong at one node: a tag that threw, or a variable,
+ * tag or partial that could not be found.
+ */
+export interface RenderIssue {
+    /** Tag, variable or partial name. */
+    readonly name: string;
+    readonly span: Span;
+    /** The wrapped error; set on `errors` entries only. */
+    readonly error?: RenderError;
+}
+
+/**
+ * Result of a render in collect mode. `output` is the full render with
+ * placeholders where tags failed.
+ */
+export interface RenderReport {
+    readonly output: string;
+    readonly errors: readonly RenderIssue[];
+    readonly missingVariables: readonly RenderIssue[];
+    readonly missingTags: readonly RenderIssue[];
+    readonly missingPartials: readonly RenderIssue[];
+}
+
+/** Mutable RenderReport under construction. */
+export interface ReportCollector {
+    readonly errors: RenderIssue[];
+    readonly missingVariables: RenderIssue[];
+    readonly missingTags: RenderIssue[];
+    readonly missingPartials: RenderIssue[];
+}
+
+export function createCollector(
+    mode: ErrorMode | undefined,
+): ReportCollector | undefined {
+    if (mode === undefined || mode === "throw") return undefined;
+    if (mode !== "collect") {
+        throw new Error(`Unknown errorMode '${String(mode)}'`);
+    }
+    return {
+        errors: [],
+        missingVariables: [],
+        missingTags: [],
+        missingPartials: [],
+    };
+}
+
+/**
+ * Freeze a collector into a report. Entries are ordered by source position
+ * (evaluation order differs: arguments finish before their tag, and async
+ * renders may run siblings concurrently).
+ */
+export function finishReport(
+    output: string,
+    collector: ReportCollector,
+): RenderReport {
+    const bySource = (a: RenderIssue, b: RenderIssue) =>
+        a.span.start.offset - b.span.start.offset;
+    return {
+        output,
+        errors: [...collector.errors].sort(bySource),
+        missingVariables: [...collector.missingVariables].sort(bySource),
+        missingTags: [...collector.missingTags].sort(bySource),
+        missingPartials: [...collector.missingPartials].sort(bySource),
+    };
 }
 
 /**
  * Render a parsed template against data. Synchronous.
+ *
+ * With `errorMode: "collect"` returns a RenderReport instead of a string.
  */
+export function render<Ctx = unknown>(
+    template: CompiledTemplate,
+    options: RenderOptions<Ctx> & { readonly errorMode: "collect" },
+): RenderReport;
+export function render<Ctx = unknown>(
+    template: CompiledTemplate,
+    options?: RenderOptions<Ctx> & { readonly errorMode?: "throw" },
+): string;
+export function render<Ctx = unknown>(
+    template: CompiledTemplate,
+    options?: RenderOptions<Ctx>,
+): string | RenderReport;
 export function render<Ctx = unknown>(
     template: CompiledTemplate,
     options: RenderOptions<Ctx> = {},
-): string {
-    const data = (options.data ?? ({} as Ctx)) as Ctx;
-    const resolver = normalizeResolver(options.variables);
-    const tags = options.tags ?? {};
+): string | RenderReport {
+    const { state, ctx } = startRender(template, options);
+    const output = renderNodes(template.nodes, ctx, state);
+    return state.report ? finishReport(output, state.report) : output;
+}
+
+/** Output of renderWithMap(). */
+export interface MappedRender {
+    readonly output: string;
+    /** Runs of `output` in order, each with the node that emitted it. */
+    readonly segments: readonly OutputSegment[];
+    /** The report render() would return, with `errorMode: "collect"`. */
+    readonly report?: RenderReport;
+}
+
+/**
+ * Render like render() and map the output back to the template. Every
+ * non-empty run of output is covered by one segment, pointing at the text,
+ * variable or tag that emitted it. Text a tag passed through from its
+ * arguments, such as the branch {if} chose, maps to the nodes inside; text
+ * a tag produced or rewrote maps to the tag. Synchronous only.
+ */
+export function renderWithMap<Ctx = unknown>(
+    template: CompiledTemplate,
+    options: RenderOptions<Ctx> = {},
+): MappedRender {
+    const map: RenderedPiece[] = [];
+    const { state, ctx } = startRender(template, options, map);
+    const output = renderNodes(template.nodes, ctx, state);
+    const { segments } = map.pop() as RenderedPiece;
+    return state.report
+        ? { output, segments, report: finishReport(output, state.report) }
+        : { output, segments };
+}
 
-    const ctx: RenderContext<Ctx> = {
-        data,
-        locals: new Map(),
-        depth: 0,
+function startRender<Ctx>(
+    template: CompiledTemplate,
+    options: RenderOptions<Ctx>,
+    map?: RenderedPiece[],
+): { state: RenderState<Ctx>; ctx: RenderContext<Ctx> } {
+    const data = (options.data ?? ({} as Ctx)) as Ctx;
+    const state: RenderState<Ctx> = {
+        resolver: normalizeResolver(options.variables),
+        tags: options.tags ?? {},
+        options,
+        budget: new RenderBudget(options.limits),
+        report: createCollector(options.errorMode),
+        macros: template.macros,
+        ...(map && { map }),
     };
 
-    return renderNodes(template.nodes, ctx, resolver, tags, options);
+    const escaper = resolveEscaper(options.escape);
+    const ctx: RenderContext<Ctx> = escaper
+        ? { data, locals: new Map(), depth: 0, escape: escaper }
+        : { data, locals: new Map(), depth: 0 };
+    return { state, ctx };
+}
+
+/**
+ * Per-render state shared by every node: normalized options, the budget and,
+ * in collect mode, the report being built. Also used by the closure compiler.
+ */
+export interface RenderState<Ctx> {
+    readonly resolver: VariableResolver<Ctx> | undefined;
+    readonly tags: Readonly<Record<string, AnyTagHandler<Ctx>>>;
+    readonly options: RenderOptions<Ctx>;
+    readonly budget: RenderBudget;
+    readonly report: ReportCollector | undefined;
+    /** Macros of the template being rendered; a partial brings its own. */
+    readonly macros: Readonly<Record<string, MacroDefinition>> | undefined;
+    /**
+     * For renderWithMap(): each node list rendered pushes its output and
+     * segments here, and the enclosing list takes the pieces rendered
+     * inside each of its nodes.
+     */
+    readonly map?: RenderedPiece[];
 }
 
 function renderNodes<Ctx>(
     nodes: readonly TemplateNode[],
     ctx: RenderContext<Ctx>,
-    resolver: VariableResolver<Ctx> | undefined,
-    tags: Readonly<Record<string, AnyTagHandler<Ctx>>>,
-    options: RenderOptions<Ctx>,
+    state: RenderState<Ctx>,
 ): string {
-    if (ctx.depth > MAX_RENDER_DEPTH) {
-        throw new RenderError(`Render depth exceeded ${MAX_RENDER_DEPTH}`);
-    }
+    state.budget.enter(ctx.depth, nodes[0]?.span);
 
+    const { map } = state;
+    const segments: OutputSegment[] = [];
     let out = "";
     for (const node of nodes) {
-        out += renderNode(node, ctx, resolver, tags, options);
+        state.budget.node(node.span);
+        const from = map?.length ?? 0;
+        const text = renderNode(node, ctx, state);
+        if (map) {
+            const opaque = node.kind === NodeKind.Tag && isPartial(node, state);
+            segments.push(
+                ...nodeSegments(
+                    node,
+                    text,
+                    out.length,
+                    map.splice(from),
+                    opaque,
+                ),
+            );
+        }
+        out += text;
+        state.budget.output(out, node.span);
     }
+    map?.push({ output: out, segments });
     return out;
 }
 
 function renderNode<Ctx>(
     node: TemplateNode,
     ctx: RenderContext<Ctx>,
-    resolver: VariableResolver<Ctx> | undefined,
-    tags: Readonly<Record<string, AnyTagHandler<Ctx>>>,
-    options: RenderOptions<Ctx>,
+    state: RenderState<Ctx>,
 ): string {
     switch (node.kind) {
         case NodeKind.Text:
             return node.value;
-        case NodeKind.Variable: {
-            const fromLocals = ctx.locals.get(node.name);
-            if (fromLocals !== undefined) return stringify(fromLocals);
-            if (resolver) {
-                const v = resolver(node.name, ctx);
-                if (v !== undefined && v !== null) return stringify(v);
-            }
-            const fallback = options.onMissingVariable?.(node.name, ctx);
-            return fallback ?? "";
-        }
+        case NodeKind.Variable:
+            return renderVariable(node, ctx, state);
         case NodeKind.Tag: {
-            return renderTag(node, ctx, resolver, tags, options);
+            return renderTag(node, ctx, state);
         }
+        case NodeKind.Comment:
+            return "";
+        case NodeKind.Expression:
+            return emitValue(
+                evaluateExpressionNode(node, ctx, state),
+                ctx.escape,
+            );
+    }
+}
+
+/**
+ * An expression's value. Its variables resolve like `{name}` does, so missing
+ * ones are reported and onMissingVariable applies.
+ */
+export function evaluateExpressionNode<Ctx>(
+    node: ExpressionNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+): unknown {
+    return evaluateExpression(node.expression, (id) => {
+        const variable: VariableNode = {
+            kind: NodeKind.Variable,
+            name: id.name,
+            span: id.span,
+        };
+        const value = lookupVariable(variable, ctx, state);
+        return value !== undefined
+            ? value
+            : missingVariable(variable, ctx, state);
+    });
+}
+
+/**
+ * Look up a variable: locals first, then the resolver, then onMissingVariable.
+ * Shared with the closure compiler so both paths resolve identically.
+ */
+export function renderVariable<Ctx>(
+    node: VariableNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+): string {
+    const value = lookupVariable(node, ctx, state);
+    if (value !== undefined) return emitValue(value, ctx.escape);
+    return missingVariable(node, ctx, state) ?? "";
+}
+
+/** A variable's value from the locals or resolver; undefined if missing. */
+export function lookupVariable<Ctx>(
+    node: VariableNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+): unknown {
+    const local = lookupLocal(ctx, node.name);
+    if (local !== undefined) return local;
+    if (state.resolver) {
+        const v = state.resolver(node.name, ctx);
+        if (v !== undefined && v !== null) return v;
     }
+    return undefined;
+}
+
+/**
+ * Find a variable in the locals, following a dotted path into a local so
+ * `{it.name}` reads a field of the current {each} item.
+ */
+export function lookupLocal<Ctx>(
+    ctx: RenderContext<Ctx>,
+    name: string,
+): unknown {
+    const direct = ctx.locals.get(name);
+    if (direct !== undefined) return direct;
+    const dot = name.indexOf(".");
+    if (dot <= 0) return undefined;
+    const root = ctx.locals.get(name.slice(0, dot));
+    if (root === undefined) return undefined;
+    return walkPath(root, name.slice(dot + 1));
+}
+
+/** Record a missing variable and ask onMissingVariable for a substitute. */
+export function missingVariable<Ctx>(
+    node: VariableNode,
+    ctx: RenderContext<Ctx>,
+    state: {
+        readonly report: ReportCollector | undefined;
+        readonly options: Pick<RenderOptions<Ctx>, "onMissingVariable">;
+    },
+): string | undefined {
+    state.report?.missingVariables.push({ name: node.name, span: node.span });
+    return state.options.onMissingVariable?.(node.name, ctx);
 }
 
 function renderTag<Ctx>(
     node: TagNode,
     ctx: RenderContext<Ctx>,
-    resolver: VariableResolver<Ctx> | undefined,
-    tags: Readonly<Record<string, AnyTagHandler<Ctx>>>,
-    options: RenderOptions<Ctx>,
+    state: RenderState<Ctx>,
 ): string {
-    const handler = tags[node.name];
+    return emitValue(evaluateTag(node, ctx, state), ctx.escape);
+}
+
+/**
+ * Run a tag and return its result unstringified, for value tags to consume.
+ * Results that must not be escaped again — structural and formatting tag
+ * output, fallbacks, placeholders — are marked trusted.
+ */
+function evaluateTag<Ctx>(
+    node: TagNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+): unknown {
+    const partials = state.options.partials;
+    if (partials && isPartial(node, state)) {
+        return renderInclude(node, ctx, state, partials);
+    }
+    const handler = state.tags[node.name];
     if (!handler) {
+        const macro = findMacro(state.macros, node.name);
+        if (macro) return renderMacro(node, ctx, state, macro);
         const evaledArgs = node.args.map((a) =>
-            renderArg(a, ctx, resolver, tags, options),
+            renderArg(a, unescaped(ctx), state),
+        );
+        state.report?.missingTags.push({ name: node.name, span: node.span });
+        const fallback = state.options.onMissingTag?.(
+            node.name,
+            evaledArgs,
+            ctx,
         );
-        const fallback = options.onMissingTag?.(node.name, evaledArgs, ctx);
-        return fallback ?? "";
+        return trusted(fallback ?? "", ctx);
     }
 
     try {
@@ -159,67 +553,286 @@ function renderTag<Ctx>(
             const renderArgFn = (
                 arg: ArgumentNode,
                 locals?: Record<string, unknown>,
+                opts?: StructuralRenderOptions,
             ): string => {
+                if (locals) state.budget.iteration(node);
+                const base = opts?.raw ? unescaped(ctx) : ctx;
                 const argCtx = locals
-                    ? withLocals(ctx, locals)
-                    : { ...ctx, depth: ctx.depth + 1 };
-                return renderNodes(arg.nodes, argCtx, resolver, tags, options);
+                    ? withLocals(base, locals)
+                    : { ...base, depth: base.depth + 1 };
+                return renderNodes(arg.nodes, argCtx, state);
             };
-            const result = handler.handle(node.args, ctx, renderArgFn);
-            if (
-                result &&
-                typeof (result as unknown as Promise<unknown>).then ===
-                    "function"
-            ) {
-                throw new RenderError(
-                    `Tag '${node.name}' returned a Promise; use renderAsync() for async tags.`,
-                    { tagName: node.name, span: node.span },
-                );
-            }
-            return stringify(result);
+            const evaluateFn = (
+                arg: ArgumentNode,
+                locals?: Record<string, unknown>,
+            ): unknown => {
+                if (locals) state.budget.iteration(node);
+                const base = unescaped(ctx);
+                const argCtx = locals
+                    ? withLocals(base, locals)
+                    : { ...base, depth: base.depth + 1 };
+                return evaluateArg(arg, argCtx, state);
+            };
+            state.budget.tagCall(node);
+            const result = finishSyncTag(
+                node,
+                handler.handle(
+                    node.args,
+                    ctx,
+                    renderArgFn,
+                    evaluateFn,
+                    node.named ?? NO_NAMED,
+                ),
+            );
+            return trusted(stringify(result), ctx);
+        }
+
+        if (isValueTag(handler)) {
+            const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+            const values = node.args.map((a) => evaluateArg(a, argCtx, state));
+            const named = mapNamed(node, (a) => evaluateArg(a, argCtx, state));
+            state.budget.tagCall(node);
+            return finishSyncTag(node, handler.handle(values, ctx, named));
         }
 
-        const eagerArgs = node.args.map((a) =>
-            renderArg(a, ctx, resolver, tags, options),
+        const formatting = isFormattingTag(handler);
+        const argCtx = formatting ? ctx : unescaped(ctx);
+        const eagerArgs = node.args.map((a) => renderArg(a, argCtx, state));
+        const named = mapNamed(node, (a) => renderArg(a, argCtx, state));
+        state.budget.tagCall(node);
+        const result = finishSyncTag(node, handler(eagerArgs, ctx, named));
+        return formatting ? trusted(stringify(result), ctx) : result;
+    } catch (err) {
+        return trusted(
+            recoverTag(
+                node,
+                toRenderError(node, err),
+                ctx,
+                state.report,
+                state.options.errorPlaceholder,
+            ),
+            ctx,
         );
-        const result = handler(eagerArgs, ctx);
+    }
+}
+
+/** Whether `node` includes a partial rather than calling a tag. */
+function isPartial<Ctx>(node: TagNode, state: RenderState<Ctx>): boolean {
+    return state.options.partials !== undefined && node.name === INCLUDE_TAG;
+}
+
+/**
+ * Render `{include:name}` from the `partials` option. The first argument,
+ * rendered, is the partial's name; the partial's output is trusted, as its
+ * own values were escaped while it rendered. Shared with the closure compiler.
+ */
+export function renderInclude<Ctx>(
+    node: TagNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+    partials: PartialSource<Ctx>,
+): unknown {
+    try {
+        const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+        const first = node.args[0];
+        const name = first
+            ? renderNodes(first.nodes, argCtx, state).trim()
+            : "";
+        const locals = mapNamed(node, (a) => evaluateArg(a, argCtx, state));
+        state.budget.tagCall(node);
+        const partial = loadPartial(partials, name, ctx);
         if (
-            result &&
-            typeof (result as unknown as Promise<unknown>).then === "function"
+            partial &&
+            typeof (partial as Promise<unknown>).then === "function"
         ) {
             throw new RenderError(
-                `Tag '${node.name}' returned a Promise; use renderAsync() for async tags.`,
+                `Partial loader returned a Promise for '${name}'; use renderAsync() for async loaders.`,
                 { tagName: node.name, span: node.span },
             );
         }
-        return stringify(result);
+        if (!partial)
+            return trusted(missingPartial(node, name, ctx, state), ctx);
+        const child = partialContext(node, name, ctx, locals, state.budget);
+        const { nodes, macros } = partial as CompiledTemplate;
+        return trusted(renderNodes(nodes, child, { ...state, macros }), ctx);
+    } catch (err) {
+        return trusted(
+            recoverTag(
+                node,
+                toRenderError(node, err),
+                ctx,
+                state.report,
+                state.options.errorPlaceholder,
+            ),
+            ctx,
+        );
+    }
+}
+
+/**
+ * Call a `{define}` macro of the template being rendered. Arguments are
+ * evaluated like a value tag's and bound to the params as locals; the body's
+ * output is trusted, as it escaped its own values. Shared with the closure
+ * compiler.
+ */
+export function renderMacro<Ctx>(
+    node: TagNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+    macro: MacroDefinition,
+): unknown {
+    try {
+        const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+        const values = node.args.map((a) => evaluateArg(a, argCtx, state));
+        const named = mapNamed(node, (a) => evaluateArg(a, argCtx, state));
+        state.budget.tagCall(node);
+        const child = macroContext(node, macro, ctx, values, named);
+        return trusted(renderNodes(macro.body, child, state), ctx);
     } catch (err) {
-        if (err instanceof RenderError) throw err;
+        return trusted(
+            recoverTag(
+                node,
+                toRenderError(node, err),
+                ctx,
+                state.report,
+                state.options.errorPlaceholder,
+            ),
+            ctx,
+        );
+    }
+}
+
+/**
+ * An argument's value, as value tags and structural `evaluate` see it: a lone
+ * `{var}` or `{tag}` passes through unchanged, anything else renders to a
+ * string. `ctx` is the argument's own context.
+ */
+function evaluateArg<Ctx>(
+    arg: ArgumentNode,
+    ctx: RenderContext<Ctx>,
+    state: RenderState<Ctx>,
+): unknown {
+    const only = arg.nodes.length === 1 ? arg.nodes[0] : undefined;
+    if (
+        only === undefined ||
+        only.kind === NodeKind.Text ||
+        only.kind === NodeKind.Comment
+    ) {
+        return renderNodes(arg.nodes, ctx, state);
+    }
+    state.budget.enter(ctx.depth, only.span);
+    state.budget.node(only.span);
+    if (only.kind === NodeKind.Tag) {
+        const value = evaluateTag(only, ctx, state);
+        // Strings still count towards maxOutputLength, like rendered args.
+        if (typeof value === "string") state.budget.output(value, only.span);
+        return value;
+    }
+    if (only.kind === NodeKind.Expression) {
+        return evaluateExpressionNode(only, ctx, state);
+    }
+    const value = lookupVariable(only, ctx, state);
+    return value !== undefined ? value : missingVariable(only, ctx, state);
+}
+
+/**
+ * Reject a promise returned to the sync renderer, with a pointer at
+ * renderAsync(). Other results pass through.
+ */
+export function finishSyncTag(node: TagNode, result: unknown): unknown {
+    if (result && typeof (result as Promise<unknown>).then === "function") {
         throw new RenderError(
-            `Tag '${node.name}' threw during render: ${(err as Error).message}`,
-            {
-                tagName: node.name,
-                span: node.span,
-                cause: err,
-            },
+            `Tag '${node.name}' returned a Promise; use renderAsync() for async tags.`,
+            { tagName: node.name, span: node.span },
         );
     }
+    return result;
+}
+
+/**
+ * Mark renderer-built text so emitValue() does not escape it. Without an
+ * escaper there is nothing to protect against, and the plain string is
+ * friendlier to value tags.
+ */
+export function trusted<Ctx>(
+    text: string,
+    ctx: RenderContext<Ctx>,
+): string | SafeString {
+    return ctx.escape ? new SafeString(text) : text;
+}
+
+/**
+ * Stringify a value for output, escaping it unless it is a SafeString or no
+ * escaper is in effect.
+ */
+export function emitValue(
+    value: unknown,
+    escaper: Escaper | undefined,
+): string {
+    if (value instanceof SafeString) return value.value;
+    const text = stringify(value);
+    return escaper ? escaper(text) : text;
+}
+
+/**
+ * The same context with auto-escaping off. Plain tags see their arguments
+ * unescaped — they are inputs, and the tag's result is escaped instead.
+ */
+export function unescaped<Ctx>(ctx: RenderContext<Ctx>): RenderContext<Ctx> {
+    if (!ctx.escape) return ctx;
+    const { escape: _escape, ...rest } = ctx;
+    return rest;
+}
+
+/**
+ * Wrap anything a tag handler threw in a RenderError carrying the tag's name
+ * and span. RenderErrors from nested tags pass through untouched so the
+ * innermost location wins.
+ */
+export function toRenderError(node: TagNode, err: unknown): RenderError {
+    if (err instanceof RenderError) return err;
+    return new RenderError(
+        `Tag '${node.name}' threw during render: ${(err as Error).message}`,
+        {
+            tagName: node.name,
+            span: node.span,
+            cause: err,
+        },
+    );
 }
 
 function renderArg<Ctx>(
     arg: ArgumentNode,
     ctx: RenderContext<Ctx>,
-    resolver: VariableResolver<Ctx> | undefined,
-    tags: Readonly<Record<string, AnyTagHandler<Ctx>>>,
-    options: RenderOptions<Ctx>,
+    state: RenderState<Ctx>,
 ): string {
-    return renderNodes(
-        arg.nodes,
-        { ...ctx, depth: ctx.depth + 1 },
-        resolver,
-        tags,
-        options,
-    );
+    return renderNodes(arg.nodes, { ...ctx, depth: ctx.depth + 1 }, state);
+}
+
+/**
+ * Decide what a failed tag renders as. In collect mode the error is recorded
+ * and the placeholder returned so the render can continue; otherwise it is
+ * rethrown. Limit and abort errors always propagate — they exist to stop the
+ * render.
+ */
+export function recoverTag<Ctx>(
+    node: TagNode,
+    error: RenderError,
+    ctx: RenderContext<Ctx>,
+    report: ReportCollector | undefined,
+    placeholder: RenderOptions<Ctx>["errorPlaceholder"],
+): string {
+    if (
+        !report ||
+        error instanceof RenderLimitError ||
+        error instanceof RenderAbortedError
+    ) {
+        throw error;
+    }
+    report.errors.push({ name: node.name, span: node.span, error });
+    return typeof placeholder === "function"
+        ? placeholder(error, ctx)
+        : (placeholder ?? "");
 }
 
 /**
@@ -263,6 +876,7 @@ export function normalizeResolver<Ctx>(
  * Rules:
  *   - null/undefined → ""
  *   - string → as-is
+ *   - SafeString → its text
  *   - number/boolean/bigint → String(v)
  *   - Date → ISO string
  *   - plain object/array → JSON.stringify, with a circular-safe fallback to ""
@@ -280,6 +894,7 @@ export function stringify(v: unknown): string {
     if (t === "function" || t === "symbol") return "";
     if (t !== "object") return "";
 
+    if (v instanceof SafeString) return v.value;
     if (v instanceof Date) return v.toISOString();
 
     try {
@@ -291,6 +906,20 @@ export function stringify(v: unknown): string {
     }
 }
 
+/**
+ * Write a local into the innermost frame of `ctx`. Nodes rendered later with
+ * the same frame see it, including inside tag arguments and branches; frames
+ * further out do not, as withLocals() copies the locals into each new frame.
+ * Used by {set}.
+ */
+export function setLocal<Ctx>(
+    ctx: RenderContext<Ctx>,
+    name: string,
+    value: unknown,
+): void {
+    (ctx.locals as Map<string, unknown>).set(name, value);
+}
+
 /**
  * Produce a new context with additional locals merged on top of the existing
  * ones. Bumps depth by 1. Used by both the sync and async renderers and by
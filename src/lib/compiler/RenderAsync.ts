@@ -3,23 +3,55 @@ import type {
     AsyncTagHandler,
     AsyncVariableResolver,
     CompiledTemplate,
+    ExpressionNode,
+    MacroDefinition,
+    PartialSource,
     RenderContext,
+    RenderLimits,
+    Span,
     TagHandler,
     TagNode,
     TemplateNode,
+    VariableNode,
     VariableResolver,
 } from "../../types.js";
 import { type Awaitable, NodeKind } from "../../types.js";
-import { RenderError } from "../errors/Errors.js";
+import { RenderAbortedError, RenderError } from "../errors/Errors.js";
+import { RenderBudget } from "./Budget.js";
+import { type EscapeOption, resolveEscaper } from "./Escape.js";
+import { evaluateExpression } from "./Evaluate.js";
+import { findMacro, macroContext } from "./Macros.js";
+import {
+    INCLUDE_TAG,
+    loadPartial,
+    missingPartial,
+    partialContext,
+} from "./Partials.js";
 import {
     type AnyTagHandler,
+    createCollector,
+    type ErrorMode,
+    emitValue,
+    finishReport,
     isStructural,
-    MAX_RENDER_DEPTH,
+    isValueTag,
+    lookupLocal,
+    missingVariable,
+    NO_NAMED,
     normalizeResolver,
+    type RenderReport,
+    type ReportCollector,
+    recoverTag,
+    type StructuralRenderOptions,
     type StructuralTagHandler,
     stringify,
+    toRenderError,
+    trusted,
+    unescaped,
+    type ValueTagHandler,
     withLocals,
 } from "./Render.js";
+import { isFormattingTag } from "./SafeString.js";
 
 export interface AsyncStructuralTagHandler<Ctx = unknown> {
     readonly structural: true;
@@ -29,7 +61,13 @@ export interface AsyncStructuralTagHandler<Ctx = unknown> {
         render: (
             arg: ArgumentNode,
             withLocals?: Record<string, unknown>,
+            options?: StructuralRenderOptions,
         ) => Promise<string>,
+        evaluate: (
+            arg: ArgumentNode,
+            withLocals?: Record<string, unknown>,
+        ) => Promise<unknown>,
+        named: Readonly<Record<string, ArgumentNode>>,
     ): Awaitable<string | number | boolean | null | undefined>;
 }
 
@@ -57,150 +95,630 @@ export interface RenderAsyncOptions<Ctx = unknown> {
         args: readonly string[],
         ctx: RenderContext<Ctx>,
     ) => string | undefined;
+    /** See RenderOptions.partials. Loaders may return a promise here. */
+    readonly partials?: PartialSource<Ctx>;
+    /** See RenderOptions.onMissingPartial. */
+    readonly onMissingPartial?: (
+        name: string,
+        ctx: RenderContext<Ctx>,
+    ) => string | undefined;
+    /**
+     * How many sibling nodes, eager tag arguments, or structural `render()`
+     * calls (e.g. `{each}` items) may be in flight at once. Output order is
+     * unaffected. The limit applies per sibling group, so nested tags each get
+     * their own budget.
+     *
+     * Default: 1 (strictly sequential), so tags that depend on side-effect
+     * ordering keep working. Use `Infinity` for no limit.
+     */
+    readonly concurrency?: number;
+    /**
+     * Cancels the render. Checked before every node and raced against every
+     * pending resolver or tag, which also receive it as `ctx.signal`. An abort
+     * rejects with RenderAbortedError.
+     */
+    readonly signal?: AbortSignal;
+    /** Abort the render after this many milliseconds. */
+    readonly timeoutMs?: number;
+    /** Resource budget; see RenderOptions.limits. */
+    readonly limits?: RenderLimits;
+    /** See RenderOptions.errorMode. */
+    readonly errorMode?: ErrorMode;
+    /** Substituted for a failing tag in collect mode. Default: "". */
+    readonly errorPlaceholder?:
+        | string
+        | ((error: RenderError, ctx: RenderContext<Ctx>) => string);
+    /** Auto-escaping; see RenderOptions.escape. */
+    readonly escape?: EscapeOption;
 }
 
+/**
+ * Render a parsed template against data, awaiting async resolvers and tags.
+ *
+ * With `errorMode: "collect"` resolves to a RenderReport instead of a string.
+ */
+export async function renderAsync<Ctx = unknown>(
+    template: CompiledTemplate,
+    options: RenderAsyncOptions<Ctx> & { readonly errorMode: "collect" },
+): Promise<RenderReport>;
+export async function renderAsync<Ctx = unknown>(
+    template: CompiledTemplate,
+    options?: RenderAsyncOptions<Ctx> & { readonly errorMode?: "throw" },
+): Promise<string>;
+export async function renderAsync<Ctx = unknown>(
+    template: CompiledTemplate,
+    options?: RenderAsyncOptions<Ctx>,
+): Promise<string | RenderReport>;
 export async function renderAsync<Ctx = unknown>(
     template: CompiledTemplate,
     options: RenderAsyncOptions<Ctx> = {},
-): Promise<string> {
+): Promise<string | RenderReport> {
+    const { ctx, state, dispose } = prepareAsync(options, template.macros);
+    try {
+        const output = await renderNodesAsync(template.nodes, ctx, state);
+        return state.report ? finishReport(output, state.report) : output;
+    } finally {
+        dispose();
+    }
+}
+
+/**
+ * Root context and per-render state for an async render. Shared with
+ * renderStream() so both entry points normalize options the same way.
+ * Callers must invoke `dispose` once the render settles to clear the timeout.
+ */
+export function prepareAsync<Ctx>(
+    options: RenderAsyncOptions<Ctx>,
+    macros: Readonly<Record<string, MacroDefinition>> | undefined,
+): {
+    ctx: RenderContext<Ctx>;
+    state: AsyncRenderState<Ctx>;
+    dispose: () => void;
+} {
     const data = (options.data ?? ({} as Ctx)) as Ctx;
-    const resolver = normalizeResolver(
-        options.variables as
-            | VariableResolver<Ctx>
-            | Record<string, unknown>
-            | undefined,
-    ) as AsyncVariableResolver<Ctx> | undefined;
-    const tags = options.tags ?? {};
-    const ctx: RenderContext<Ctx> = { data, locals: new Map(), depth: 0 };
-    return renderNodesAsync(template.nodes, ctx, resolver, tags, options);
+    const concurrency = options.concurrency ?? 1;
+    if (
+        concurrency !== Number.POSITIVE_INFINITY &&
+        !(Number.isInteger(concurrency) && concurrency >= 1)
+    ) {
+        throw new Error("concurrency must be a positive integer or Infinity");
+    }
+    const state: AsyncRenderState<Ctx> = {
+        resolver: normalizeResolver(
+            options.variables as
+                | VariableResolver<Ctx>
+                | Record<string, unknown>
+                | undefined,
+        ) as AsyncVariableResolver<Ctx> | undefined,
+        tags: options.tags ?? {},
+        options,
+        budget: new RenderBudget(options.limits),
+        report: createCollector(options.errorMode),
+        concurrency,
+        macros,
+    };
+    const escaper = resolveEscaper(options.escape);
+    const { signal, dispose } = linkSignal(options.signal, options.timeoutMs);
+    const ctx: RenderContext<Ctx> = {
+        data,
+        locals: new Map(),
+        depth: 0,
+        ...(signal && { signal }),
+        ...(escaper && { escape: escaper }),
+    };
+    return { ctx, state, dispose };
+}
+
+/** Async counterpart of RenderState. */
+export interface AsyncRenderState<Ctx> {
+    readonly resolver: AsyncVariableResolver<Ctx> | undefined;
+    readonly tags: Readonly<
+        Record<string, AnyAsyncTagHandler<Ctx> | AnyTagHandler<Ctx>>
+    >;
+    readonly options: RenderAsyncOptions<Ctx>;
+    readonly budget: RenderBudget;
+    readonly report: ReportCollector | undefined;
+    readonly concurrency: number;
+    readonly macros: Readonly<Record<string, MacroDefinition>> | undefined;
+}
+
+/**
+ * Combine the caller's signal and the timeout into the one signal the render
+ * observes. Returns no signal when neither is set, so the common path pays
+ * nothing.
+ */
+function linkSignal(
+    outer: AbortSignal | undefined,
+    timeoutMs: number | undefined,
+): { signal: AbortSignal | undefined; dispose: () => void } {
+    if (timeoutMs === undefined) return { signal: outer, dispose: () => {} };
+    if (!(timeoutMs >= 0) || !Number.isFinite(timeoutMs)) {
+        throw new Error("timeoutMs must be a non-negative finite number");
+    }
+
+    const controller = new AbortController();
+    const onOuterAbort = () => controller.abort(outer?.reason);
+    const timer = setTimeout(
+        () =>
+            controller.abort(
+                new DOMException(
+                    `Render timed out after ${timeoutMs}ms`,
+                    "TimeoutError",
+                ),
+            ),
+        timeoutMs,
+    );
+    if (outer?.aborted) onOuterAbort();
+    else outer?.addEventListener("abort", onOuterAbort, { once: true });
+
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            clearTimeout(timer);
+            outer?.removeEventListener("abort", onOuterAbort);
+        },
+    };
+}
+
+/** Where an abort is reported: the node being evaluated at the time. */
+interface AbortSite {
+    readonly span: Span;
+    readonly tagName?: string;
+}
+
+function throwIfAborted(ctx: RenderContext<unknown>, site: AbortSite): void {
+    if (ctx.signal?.aborted) {
+        throw new RenderAbortedError(ctx.signal.reason, site);
+    }
+}
+
+/**
+ * Await `value`, but reject as soon as the render's signal aborts so a hung
+ * resolver or tag can't hold the render open. Sync values pass straight
+ * through.
+ */
+function abortable<T>(
+    value: Awaitable<T>,
+    ctx: RenderContext<unknown>,
+    site: AbortSite,
+): Awaitable<T> {
+    const signal = ctx.signal;
+    if (!signal || !isThenable(value)) return value;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () =>
+            reject(new RenderAbortedError(signal.reason, site));
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener("abort", onAbort, { once: true });
+        value.then(
+            (v) => {
+                signal.removeEventListener("abort", onAbort);
+                resolve(v);
+            },
+            (err: unknown) => {
+                signal.removeEventListener("abort", onAbort);
+                reject(err);
+            },
+        );
+    });
+}
+
+function isThenable<T>(value: Awaitable<T>): value is Promise<T> {
+    return (
+        value !== null &&
+        typeof value === "object" &&
+        typeof (value as Promise<T>).then === "function"
+    );
 }
 
 async function renderNodesAsync<Ctx>(
     nodes: readonly TemplateNode[],
     ctx: RenderContext<Ctx>,
-    resolver: AsyncVariableResolver<Ctx> | undefined,
-    tags: Readonly<
-        Record<string, AnyAsyncTagHandler<Ctx> | AnyTagHandler<Ctx>>
-    >,
-    options: RenderAsyncOptions<Ctx>,
+    state: AsyncRenderState<Ctx>,
 ): Promise<string> {
-    if (ctx.depth > MAX_RENDER_DEPTH) {
-        throw new RenderError(`Render depth exceeded ${MAX_RENDER_DEPTH}`);
-    }
-    // Sequential by design: tags may share state (e.g. assignment patterns) and
-    // ordering matters for side effects. Users who want parallelism should
-    // structure their work above the renderer.
-    const parts: string[] = [];
-    for (const node of nodes) {
-        parts.push(await renderNodeAsync(node, ctx, resolver, tags, options));
-    }
-    return parts.join("");
+    state.budget.enter(ctx.depth, nodes[0]?.span);
+    // Sequential unless the caller opts in: tags may share state (e.g.
+    // assignment patterns) and ordering matters for side effects.
+    const parts = await mapLimit(nodes, state.concurrency, async (node) => {
+        const part = await renderNodeAsync(node, ctx, state);
+        state.budget.output(part, node.span);
+        return part;
+    });
+    const out = parts.join("");
+    const last = nodes[nodes.length - 1];
+    if (last) state.budget.output(out, last.span);
+    return out;
 }
 
-async function renderNodeAsync<Ctx>(
+export async function renderNodeAsync<Ctx>(
     node: TemplateNode,
     ctx: RenderContext<Ctx>,
-    resolver: AsyncVariableResolver<Ctx> | undefined,
-    tags: Readonly<
-        Record<string, AnyAsyncTagHandler<Ctx> | AnyTagHandler<Ctx>>
-    >,
-    options: RenderAsyncOptions<Ctx>,
+    state: AsyncRenderState<Ctx>,
 ): Promise<string> {
+    throwIfAborted(ctx, { span: node.span });
+    state.budget.node(node.span);
     switch (node.kind) {
         case NodeKind.Text:
             return node.value;
         case NodeKind.Variable: {
-            const fromLocals = ctx.locals.get(node.name);
-            if (fromLocals !== undefined) return stringify(fromLocals);
-            if (resolver) {
-                const v = await resolver(node.name, ctx);
-                if (v !== undefined && v !== null) return stringify(v);
-            }
-            return options.onMissingVariable?.(node.name, ctx) ?? "";
+            const value = await lookupVariableAsync(node, ctx, state);
+            if (value !== undefined) return emitValue(value, ctx.escape);
+            return missingVariable(node, ctx, state) ?? "";
         }
         case NodeKind.Tag:
-            return renderTagAsync(node, ctx, resolver, tags, options);
+            return emitValue(
+                await evaluateTagAsync(node, ctx, state),
+                ctx.escape,
+            );
+        case NodeKind.Comment:
+            return "";
+        case NodeKind.Expression:
+            return emitValue(
+                await evaluateExpressionAsync(node, ctx, state),
+                ctx.escape,
+            );
+    }
+}
+
+async function lookupVariableAsync<Ctx>(
+    node: VariableNode,
+    ctx: RenderContext<Ctx>,
+    state: AsyncRenderState<Ctx>,
+): Promise<unknown> {
+    const local = lookupLocal(ctx, node.name);
+    if (local !== undefined) return local;
+    if (state.resolver) {
+        const v = await abortable(state.resolver(node.name, ctx), ctx, {
+            span: node.span,
+        });
+        if (v !== undefined && v !== null) return v;
     }
+    return undefined;
+}
+
+/** Async counterpart of evaluateExpressionNode() in the sync renderer. */
+async function evaluateExpressionAsync<Ctx>(
+    node: ExpressionNode,
+    ctx: RenderContext<Ctx>,
+    state: AsyncRenderState<Ctx>,
+): Promise<unknown> {
+    return evaluateExpression(node.expression, async (id) => {
+        const variable: VariableNode = {
+            kind: NodeKind.Variable,
+            name: id.name,
+            span: id.span,
+        };
+        const value = await lookupVariableAsync(variable, ctx, state);
+        return value !== undefined
+            ? value
+            : missingVariable(variable, ctx, state);
+    });
 }
 
-async function renderTagAsync<Ctx>(
+/** Async counterpart of evaluateTag() in the sync renderer. */
+async function evaluateTagAsync<Ctx>(
     node: TagNode,
     ctx: RenderContext<Ctx>,
-    resolver: AsyncVariableResolver<Ctx> | undefined,
-    tags: Readonly<
-        Record<string, AnyAsyncTagHandler<Ctx> | AnyTagHandler<Ctx>>
-    >,
-    options: RenderAsyncOptions<Ctx>,
-): Promise<string> {
-    const handler = tags[node.name];
+    state: AsyncRenderState<Ctx>,
+): Promise<unknown> {
+    const partials = state.options.partials;
+    if (partials && node.name === INCLUDE_TAG) {
+        return renderIncludeAsync(node, ctx, state, partials);
+    }
+    const handler = state.tags[node.name];
     if (!handler) {
-        const evaledArgs: string[] = [];
-        for (const a of node.args)
-            evaledArgs.push(
-                await renderArgAsync(a, ctx, resolver, tags, options),
-            );
-        return options.onMissingTag?.(node.name, evaledArgs, ctx) ?? "";
+        const macro = findMacro(state.macros, node.name);
+        if (macro) return renderMacroAsync(node, ctx, state, macro);
+        const evaledArgs = await mapLimit(node.args, state.concurrency, (a) =>
+            renderArgAsync(a, unescaped(ctx), state),
+        );
+        state.report?.missingTags.push({ name: node.name, span: node.span });
+        const fallback = state.options.onMissingTag?.(
+            node.name,
+            evaledArgs,
+            ctx,
+        );
+        return trusted(fallback ?? "", ctx);
     }
 
+    const site = { span: node.span, tagName: node.name };
     try {
         if (isStructural(handler as AnyTagHandler<Ctx>)) {
-            const renderArgFn = async (
+            // Handlers like {each} fire every render() up front; the limiter
+            // decides how many actually run at once (one, by default).
+            const limit = createLimiter(state.concurrency);
+            const renderArgFn = (
+                arg: ArgumentNode,
+                locals?: Record<string, unknown>,
+                opts?: StructuralRenderOptions,
+            ): Promise<string> =>
+                limit(() => {
+                    if (locals) state.budget.iteration(node);
+                    const base = opts?.raw ? unescaped(ctx) : ctx;
+                    const childCtx = locals
+                        ? withLocals(base, locals)
+                        : { ...base, depth: base.depth + 1 };
+                    return renderNodesAsync(arg.nodes, childCtx, state);
+                });
+            const evaluateFn = (
                 arg: ArgumentNode,
                 locals?: Record<string, unknown>,
-            ): Promise<string> => {
-                const childCtx = locals
-                    ? withLocals(ctx, locals)
-                    : { ...ctx, depth: ctx.depth + 1 };
-                return renderNodesAsync(
-                    arg.nodes,
-                    childCtx,
-                    resolver,
-                    tags,
-                    options,
-                );
-            };
-            const result = await (handler as StructuralTagHandler<Ctx>).handle(
-                node.args,
+            ): Promise<unknown> =>
+                limit(() => {
+                    if (locals) state.budget.iteration(node);
+                    const base = unescaped(ctx);
+                    const childCtx = locals
+                        ? withLocals(base, locals)
+                        : { ...base, depth: base.depth + 1 };
+                    return evaluateArgAsync(arg, childCtx, state);
+                });
+            state.budget.tagCall(node);
+            const result = await abortable(
+                (handler as AsyncStructuralTagHandler<Ctx>).handle(
+                    node.args,
+                    ctx,
+                    renderArgFn,
+                    evaluateFn,
+                    node.named ?? NO_NAMED,
+                ),
                 ctx,
-                renderArgFn,
+                site,
             );
-            return stringify(result);
+            return trusted(stringify(result), ctx);
         }
 
-        const eagerArgs: string[] = [];
-        for (const a of node.args)
-            eagerArgs.push(
-                await renderArgAsync(a, ctx, resolver, tags, options),
+        if (isValueTag(handler as AnyTagHandler<Ctx>)) {
+            const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+            const values = await mapLimit(node.args, state.concurrency, (a) =>
+                evaluateArgAsync(a, argCtx, state),
+            );
+            const named = await mapNamedAsync(node, state.concurrency, (a) =>
+                evaluateArgAsync(a, argCtx, state),
+            );
+            throwIfAborted(ctx, site);
+            state.budget.tagCall(node);
+            return await abortable(
+                (handler as ValueTagHandler<Ctx>).handle(values, ctx, named),
+                ctx,
+                site,
             );
-        const result = await (handler as AsyncTagHandler<Ctx>)(eagerArgs, ctx);
-        return stringify(result);
+        }
+
+        const formatting = isFormattingTag(handler);
+        const argCtx = formatting ? ctx : unescaped(ctx);
+        const eagerArgs = await mapLimit(node.args, state.concurrency, (a) =>
+            renderArgAsync(a, argCtx, state),
+        );
+        const named = await mapNamedAsync(node, state.concurrency, (a) =>
+            renderArgAsync(a, argCtx, state),
+        );
+        throwIfAborted(ctx, site);
+        state.budget.tagCall(node);
+        const result = await abortable(
+            (handler as AsyncTagHandler<Ctx>)(eagerArgs, ctx, named),
+            ctx,
+            site,
+        );
+        return formatting ? trusted(stringify(result), ctx) : result;
     } catch (err) {
-        if (err instanceof RenderError) throw err;
-        throw new RenderError(
-            `Tag '${node.name}' threw during render: ${(err as Error).message}`,
-            {
-                tagName: node.name,
-                span: node.span,
-                cause: err,
-            },
+        // A tag that forwarded the signal to its own I/O rejects with that
+        // I/O's abort error; report it as an abort, not a tag failure.
+        const error =
+            ctx.signal?.aborted && !(err instanceof RenderError)
+                ? new RenderAbortedError(ctx.signal.reason, site)
+                : toRenderError(node, err);
+        return trusted(
+            recoverTag(
+                node,
+                error,
+                ctx,
+                state.report,
+                state.options.errorPlaceholder,
+            ),
+            ctx,
+        );
+    }
+}
+
+/** Async counterpart of renderInclude() in the sync renderer. */
+async function renderIncludeAsync<Ctx>(
+    node: TagNode,
+    ctx: RenderContext<Ctx>,
+    state: AsyncRenderState<Ctx>,
+    partials: PartialSource<Ctx>,
+): Promise<unknown> {
+    const site = { span: node.span, tagName: node.name };
+    try {
+        const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+        const first = node.args[0];
+        const name = first
+            ? (await renderNodesAsync(first.nodes, argCtx, state)).trim()
+            : "";
+        const locals = await mapNamedAsync(node, state.concurrency, (a) =>
+            evaluateArgAsync(a, argCtx, state),
+        );
+        throwIfAborted(ctx, site);
+        state.budget.tagCall(node);
+        const partial = await abortable(
+            loadPartial(partials, name, ctx),
+            ctx,
+            site,
+        );
+        if (!partial)
+            return trusted(missingPartial(node, name, ctx, state), ctx);
+        const child = partialContext(node, name, ctx, locals, state.budget);
+        return trusted(
+            await renderNodesAsync(partial.nodes, child, {
+                ...state,
+                macros: partial.macros,
+            }),
+            ctx,
+        );
+    } catch (err) {
+        // As for tags: a loader that forwarded the signal rejects with its
+        // own abort error.
+        const error =
+            ctx.signal?.aborted && !(err instanceof RenderError)
+                ? new RenderAbortedError(ctx.signal.reason, site)
+                : toRenderError(node, err);
+        return trusted(
+            recoverTag(
+                node,
+                error,
+                ctx,
+                state.report,
+                state.options.errorPlaceholder,
+            ),
+            ctx,
+        );
+    }
+}
+
+/** Async counterpart of renderMacro() in the sync renderer. */
+async function renderMacroAsync<Ctx>(
+    node: TagNode,
+    ctx: RenderContext<Ctx>,
+    state: AsyncRenderState<Ctx>,
+    macro: MacroDefinition,
+): Promise<unknown> {
+    try {
+        const argCtx = { ...unescaped(ctx), depth: ctx.depth + 1 };
+        const values = await mapLimit(node.args, state.concurrency, (a) =>
+            evaluateArgAsync(a, argCtx, state),
+        );
+        const named = await mapNamedAsync(node, state.concurrency, (a) =>
+            evaluateArgAsync(a, argCtx, state),
+        );
+        throwIfAborted(ctx, { span: node.span, tagName: node.name });
+        state.budget.tagCall(node);
+        const child = macroContext(node, macro, ctx, values, named);
+        return trusted(await renderNodesAsync(macro.body, child, state), ctx);
+    } catch (err) {
+        return trusted(
+            recoverTag(
+                node,
+                toRenderError(node, err),
+                ctx,
+                state.report,
+                state.options.errorPlaceholder,
+            ),
+            ctx,
         );
     }
 }
 
+/** Async counterpart of evaluateArg() in the sync renderer. */
+async function evaluateArgAsync<Ctx>(
+    arg: ArgumentNode,
+    ctx: RenderContext<Ctx>,
+    state: AsyncRenderState<Ctx>,
+): Promise<unknown> {
+    const only = arg.nodes.length === 1 ? arg.nodes[0] : undefined;
+    if (
+        only === undefined ||
+        only.kind === NodeKind.Text ||
+        only.kind === NodeKind.Comment
+    ) {
+        return renderNodesAsync(arg.nodes, ctx, state);
+    }
+    throwIfAborted(ctx, { span: only.span });
+    state.budget.enter(ctx.depth, only.span);
+    state.budget.node(only.span);
+    if (only.kind === NodeKind.Tag) {
+        const value = await evaluateTagAsync(only, ctx, state);
+        if (typeof value === "string") state.budget.output(value, only.span);
+        return value;
+    }
+    if (only.kind === NodeKind.Expression) {
+        return evaluateExpressionAsync(only, ctx, state);
+    }
+    const value = await lookupVariableAsync(only, ctx, state);
+    return value !== undefined ? value : missingVariable(only, ctx, state);
+}
+
 async function renderArgAsync<Ctx>(
     arg: ArgumentNode,
     ctx: RenderContext<Ctx>,
-    resolver: AsyncVariableResolver<Ctx> | undefined,
-    tags: Readonly<
-        Record<string, AnyAsyncTagHandler<Ctx> | AnyTagHandler<Ctx>>
-    >,
-    options: RenderAsyncOptions<Ctx>,
+    state: AsyncRenderState<Ctx>,
 ): Promise<string> {
-    return renderNodesAsync(
-        arg.nodes,
-        { ...ctx, depth: ctx.depth + 1 },
-        resolver,
-        tags,
-        options,
-    );
+    return renderNodesAsync(arg.nodes, { ...ctx, depth: ctx.depth + 1 }, state);
+}
+
+/** Async counterpart of mapNamed(), under the same concurrency limit. */
+async function mapNamedAsync<R>(
+    node: TagNode,
+    limit: number,
+    task: (arg: ArgumentNode) => Promise<R>,
+): Promise<Readonly<Record<string, R>>> {
+    if (!node.named) return NO_NAMED;
+    const entries = Object.entries(node.named);
+    const values = await mapLimit(entries, limit, ([, arg]) => task(arg));
+    const out: Record<string, R> = Object.create(null);
+    for (let i = 0; i < entries.length; i++) {
+        out[(entries[i] as [string, ArgumentNode])[0]] = values[i] as R;
+    }
+    return out;
+}
+
+/**
+ * Map over `items` with at most `limit` tasks in flight, preserving order.
+ * After the first failure no new tasks are started and the error propagates.
+ */
+async function mapLimit<T, R>(
+    items: readonly T[],
+    limit: number,
+    task: (item: T) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    if (limit <= 1 || items.length <= 1) {
+        for (let i = 0; i < items.length; i++) {
+            results[i] = await task(items[i] as T);
+        }
+        return results;
+    }
+
+    let next = 0;
+    let failed = false;
+    const worker = async (): Promise<void> => {
+        while (!failed && next < items.length) {
+            const i = next++;
+            try {
+                results[i] = await task(items[i] as T);
+            } catch (err) {
+                failed = true;
+                throw err;
+            }
+        }
+    };
+    const workers: Promise<void>[] = [];
+    for (let w = 0; w < Math.min(limit, items.length); w++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * FIFO semaphore: run at most `limit` tasks at once, in call order. A finished
+ * task hands its slot straight to the next waiter so late callers can't jump
+ * the queue.
+ */
+function createLimiter(
+    limit: number,
+): <T>(task: () => Promise<T>) => Promise<T> {
+    let active = 0;
+    const queue: (() => void)[] = [];
+    return async <T>(task: () => Promise<T>): Promise<T> => {
+        if (active < limit) active++;
+        else await new Promise<void>((resolve) => queue.push(resolve));
+        try {
+            return await task();
+        } finally {
+            const waiter = queue.shift();
+            if (waiter) waiter();
+            else active--;
+        }
+    };
 }
@@ -0,0 +1,61 @@
+import type { CompiledTemplate, TemplateNode } from "../../types.js";
+import { finishReport, type RenderReport } from "./Render.js";
+import {
+    prepareAsync,
+    type RenderAsyncOptions,
+    renderNodeAsync,
+} from "./RenderAsync.js";
+
+/**
+ * Render a template as a stream of output chunks.
+ *
+ * Same options and semantics as renderAsync(), but each top-level node is
+ * yielded as soon as it resolves instead of buffering the whole output, so
+ * consumers can start sending or logging before the slowest tag returns.
+ * Chunks are always yielded in template order. With `concurrency` above 1,
+ * up to that many upcoming nodes are evaluated ahead of the one being
+ * yielded. Empty chunks are skipped.
+ *
+ *   for await (const chunk of renderStream(template, options)) send(chunk);
+ *
+ * Errors surface from the iterator at the node that threw, after everything
+ * before it has already been yielded. `signal` and `timeoutMs` cover the
+ * whole iteration, including time the consumer spends between chunks.
+ *
+ * In collect mode failing tags stream as their placeholder, and the
+ * RenderReport becomes the generator's return value (its `output` is the
+ * concatenated chunks).
+ */
+export async function* renderStream<Ctx = unknown>(
+    template: CompiledTemplate,
+    options: RenderAsyncOptions<Ctx> = {},
+): AsyncGenerator<string, RenderReport | undefined, undefined> {
+    const { ctx, state, dispose } = prepareAsync(options, template.macros);
+    const nodes = template.nodes;
+    const ahead = options.concurrency ?? 1;
+    const pending: Promise<string>[] = [];
+    let started = 0;
+    let output = "";
+
+    try {
+        for (let i = 0; i < nodes.length; i++) {
+            while (started < nodes.length && started < i + ahead) {
+                const node = nodes[started++] as TemplateNode;
+                const p = renderNodeAsync(node, ctx, state);
+                // Read-ahead nodes may fail before we reach them; the
+                // rejection is observed when their turn comes.
+                p.catch(() => {});
+                pending.push(p);
+            }
+            const chunk = await pending[i];
+            if (chunk && chunk.length > 0) {
+                state.budget.stream(chunk, (nodes[i] as TemplateNode).span);
+                if (state.report) output += chunk;
+                yield chunk;
+            }
+        }
+        return state.report ? finishReport(output, state.report) : undefined;
+    } finally {
+        dispose();
+    }
+}
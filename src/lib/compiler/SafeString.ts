@@ -0,0 +1,46 @@
+import type { TagHandler } from "../../types.js";
+
+/**
+ * Text that is already safe for the output format. Auto-escaping (the
+ * `escape` render option) passes it through untouched; everything else a
+ * variable or tag produces is escaped.
+ *
+ * Return one from a tag that builds markup itself — a mention, a link — after
+ * validating or escaping whatever user input went into it.
+ */
+export class SafeString {
+    constructor(readonly value: string) {}
+
+    toString(): string {
+        return this.value;
+    }
+
+    toJSON(): string {
+        return this.value;
+    }
+}
+
+const FORMATTING = Symbol("tagparse.formatting");
+
+/**
+ * Mark a tag that wraps its arguments in markup, like {bold:text}. Under
+ * auto-escaping its arguments are rendered escaped (they are part of the
+ * output) and its result is not escaped again, so `{bold:{name}}` escapes
+ * `name` exactly once. Other tags get unescaped arguments and have their
+ * result escaped instead.
+ */
+export function defineFormattingTag<Ctx = unknown>(
+    handler: TagHandler<Ctx>,
+): TagHandler<Ctx> {
+    const tag: TagHandler<Ctx> = (args, ctx, named) =>
+        handler(args, ctx, named);
+    Object.defineProperty(tag, FORMATTING, { value: true });
+    return tag;
+}
+
+export function isFormattingTag(handler: unknown): boolean {
+    return (
+        typeof handler === "function" &&
+        (handler as { [FORMATTING]?: boolean })[FORMATTING] === true
+    );
+}
@@ -0,0 +1,298 @@
+import type {
+    ArgumentNode,
+    CompiledTemplate,
+    MacroDefinition,
+    ParserOptions,
+    Span,
+    TemplateNode,
+} from "../../types.js";
+import { NodeKind } from "../../types.js";
+import { SerializationError } from "../errors/Errors.js";
+import { parseExpression } from "../parser/Expression.js";
+
+/**
+ * Format version of serialize() output. Payloads of any other version are
+ * stale; it changes whenever the encoding or the AST does.
+ */
+export const SERIALIZED_VERSION = 1;
+
+export interface SerializeOptions {
+    /**
+     * Keep node spans, which error messages and diagnostics point with.
+     * Without them, every node gets an empty span at line 1, column 1.
+     * Default: false.
+     */
+    readonly spans?: boolean;
+    /**
+     * The options the template was parsed with, stored in the payload so
+     * deserialize() can tell a stale one. Default: {}.
+     */
+    readonly parserOptions?: ParserOptions;
+}
+
+/**
+ * The JSON payload. Nodes are arrays led by a kind code (`v` variable, `t`
+ * tag, `c` comment, `e` expression, `x` text) with the span, if kept, last.
+ * Text without a span is a bare string. Expressions keep only their source
+ * and are parsed again on load.
+ */
+interface Payload {
+    readonly version: number;
+    readonly options: Readonly<Record<string, unknown>>;
+    readonly source: string;
+    readonly nodes: readonly unknown[];
+    readonly macros?: Readonly<Record<string, unknown>>;
+}
+
+const EMPTY_SPAN: Span = {
+    start: { line: 1, column: 1, offset: 0 },
+    end: { line: 1, column: 1, offset: 0 },
+};
+
+/**
+ * Encode a compiled template as compact, versioned JSON for caching. The
+ * payload holds the source and the parser options too, so a stale entry
+ * can be recompiled; see deserialize() and Template.fromSerialized().
+ */
+export function serialize(
+    template: CompiledTemplate,
+    options: SerializeOptions = {},
+): string {
+    const spans = options.spans ?? false;
+    const span = (s: Span): unknown[] =>
+        spans
+            ? [
+                  [
+                      s.start.line,
+                      s.start.column,
+                      s.start.offset,
+                      s.end.line,
+                      s.end.column,
+                      s.end.offset,
+                  ],
+              ]
+            : [];
+    const arg = (a: ArgumentNode): unknown => [
+        a.nodes.map(node),
+        ...span(a.span),
+    ];
+    const node = (n: TemplateNode): unknown => {
+        switch (n.kind) {
+            case NodeKind.Text:
+                return spans ? ["x", n.value, ...span(n.span)] : n.value;
+            case NodeKind.Variable:
+                return ["v", n.name, ...span(n.span)];
+            case NodeKind.Tag:
+                return [
+                    "t",
+                    n.name,
+                    n.args.map(arg),
+                    n.named ? mapValues(n.named, arg) : null,
+                    ...span(n.span),
+                ];
+            case NodeKind.Comment:
+                return ["c", n.value, ...span(n.span)];
+            case NodeKind.Expression:
+                return ["e", n.source, ...span(n.span)];
+        }
+    };
+    const payload: Payload = {
+        version: SERIALIZED_VERSION,
+        options: storedOptions(options.parserOptions ?? {}),
+        source: template.source,
+        nodes: template.nodes.map(node),
+        ...(template.macros && {
+            macros: mapValues(template.macros, (m) => [
+                m.params,
+                m.body.map(node),
+                ...span(m.span),
+            ]),
+        }),
+    };
+    return JSON.stringify(payload);
+}
+
+/**
+ * Decode a serialize() payload. Throws a SerializationError when it is
+ * malformed, of another format version, or compiled with parser options
+ * other than `options` (`strict` and `cst` aside); the last two carry the
+ * source to recompile.
+ */
+export function deserialize(
+    payload: string,
+    options: ParserOptions = {},
+): CompiledTemplate {
+    const data = readPayload(payload);
+    if (data.version !== SERIALIZED_VERSION) {
+        throw new SerializationError(
+            `Serialized template has format version ${data.version}; expected ${SERIALIZED_VERSION}`,
+            "version",
+            data.source,
+        );
+    }
+    if (canonical(data.options) !== canonical(storedOptions(options))) {
+        throw new SerializationError(
+            "Serialized template was compiled with other parser options",
+            "options",
+            data.source,
+        );
+    }
+    const nodes = list(data.nodes).map(decodeNode);
+    if (!data.macros) return { nodes, source: data.source };
+    const macros: Record<string, MacroDefinition> = Object.create(null);
+    for (const [name, value] of Object.entries(record(data.macros))) {
+        const [params, body, span] = list(value);
+        macros[name] = {
+            name,
+            params: list(params).map(text),
+            body: list(body).map(decodeNode),
+            span: decodeSpan(span),
+        };
+    }
+    return { nodes, source: data.source, macros };
+}
+
+function readPayload(payload: string): Payload {
+    let data: unknown;
+    try {
+        data = JSON.parse(payload);
+    } catch {
+        return invalid("not JSON");
+    }
+    const { version, options, source } = record(data);
+    if (typeof version !== "number" || typeof source !== "string") {
+        return invalid("missing version or source");
+    }
+    record(options);
+    return data as Payload;
+}
+
+function decodeNode(value: unknown): TemplateNode {
+    if (typeof value === "string") {
+        return { kind: NodeKind.Text, value, span: EMPTY_SPAN };
+    }
+    const [code, a, b, c, d] = list(value);
+    switch (code) {
+        case "x":
+            return { kind: NodeKind.Text, value: text(a), span: decodeSpan(b) };
+        case "v":
+            return {
+                kind: NodeKind.Variable,
+                name: text(a),
+                span: decodeSpan(b),
+            };
+        case "c":
+            return {
+                kind: NodeKind.Comment,
+                value: text(a),
+                span: decodeSpan(b),
+            };
+        case "e": {
+            const source = text(a);
+            const span = decodeSpan(b);
+            const result = parseExpression(source, span.start);
+            if (!result || !("expression" in result)) {
+                return invalid(`bad expression '${source}'`);
+            }
+            return {
+                kind: NodeKind.Expression,
+                expression: result.expression,
+                source,
+                span,
+            };
+        }
+        case "t": {
+            const args = list(b).map(decodeArg);
+            const span = decodeSpan(d);
+            if (c === null)
+                return { kind: NodeKind.Tag, name: text(a), args, span };
+            const named: Record<string, ArgumentNode> = Object.create(null);
+            for (const [key, arg] of Object.entries(record(c))) {
+                named[key] = decodeArg(arg);
+            }
+            return { kind: NodeKind.Tag, name: text(a), args, named, span };
+        }
+    }
+    return invalid(`unknown node ${JSON.stringify(code)}`);
+}
+
+function decodeArg(value: unknown): ArgumentNode {
+    const [nodes, span] = list(value);
+    return {
+        kind: NodeKind.Argument,
+        nodes: list(nodes).map(decodeNode),
+        span: decodeSpan(span),
+    };
+}
+
+function decodeSpan(value: unknown): Span {
+    if (value === undefined) return EMPTY_SPAN;
+    const n = list(value);
+    if (n.length !== 6 || !n.every(Number.isInteger)) {
+        return invalid("bad span");
+    }
+    const [line, column, offset, endLine, endColumn, endOffset] = n as [
+        number,
+        number,
+        number,
+        number,
+        number,
+        number,
+    ];
+    return {
+        start: { line, column, offset },
+        end: { line: endLine, column: endColumn, offset: endOffset },
+    };
+}
+
+/**
+ * The options that shape the AST, JSON-safe: without `strict` and `cst`,
+ * which do not, and without unset keys.
+ */
+function storedOptions(options: ParserOptions): Record<string, unknown> {
+    const { strict: _strict, cst: _cst, ...rest } = options;
+    return JSON.parse(JSON.stringify(rest));
+}
+
+/** JSON with object keys sorted, for comparing options. */
+function canonical(value: unknown): string {
+    return JSON.stringify(value, (_key, v: unknown) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.fromEntries(
+                  Object.entries(v).sort(([a], [b]) =>
+                      a < b ? -1 : a > b ? 1 : 0,
+                  ),
+              )
+            : v,
+    );
+}
+
+function mapValues<T>(
+    values: Readonly<Record<string, T>>,
+    fn: (value: T) => unknown,
+): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [key, fn(value)]),
+    );
+}
+
+function list(value: unknown): readonly unknown[] {
+    return Array.isArray(value) ? value : invalid("expected an array");
+}
+
+function record(value: unknown): Readonly<Record<string, unknown>> {
+    return value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : invalid("expected an object");
+}
+
+function text(value: unknown): string {
+    return typeof value === "string" ? value : invalid("expected a string");
+}
+
+function invalid(detail: string): never {
+    throw new SerializationError(
+        `Invalid serialized template: ${detail}`,
+        "invalid",
+    );
+}
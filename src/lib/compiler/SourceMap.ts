@@ -0,0 +1,163 @@
+import type { Span, TemplateNode } from "../../types.js";
+import { NodeKind } from "../../types.js";
+
+/**
+ * A run of rendered output and the node that emitted it. Offsets index the
+ * output like String#slice; `span` is the node's span in the template.
+ */
+export interface OutputSegment {
+    readonly outputStart: number;
+    readonly outputEnd: number;
+    readonly span: Span;
+    readonly nodeKind: NodeKind;
+    /** Set when a tag emitted the text itself. */
+    readonly tagName?: string;
+}
+
+/** The output of rendering one list of nodes, with its segments. */
+export interface RenderedPiece {
+    readonly output: string;
+    readonly segments: readonly OutputSegment[];
+}
+
+/**
+ * Segments for `text`, the output `node` rendered at `start`. `inner` are
+ * the node lists rendered while it ran, in order. Text and variables map to
+ * themselves. A tag maps to the last inner piece that is its whole output
+ * (the branch {if} chose, a macro's body); failing that, inner pieces are
+ * placed where they occur, earliest first (see placePieces()), and the rest
+ * maps to the tag.
+ * Text a tag rewrote, such as {upper}'s, maps to the tag. `opaque` tags
+ * (partials, whose spans point into another source) always map as a whole.
+ */
+export function nodeSegments(
+    node: TemplateNode,
+    text: string,
+    start: number,
+    inner: readonly RenderedPiece[],
+    opaque: boolean,
+): OutputSegment[] {
+    if (text === "") return [];
+    const own = (from: number, to: number): OutputSegment => ({
+        outputStart: start + from,
+        outputEnd: start + to,
+        span: node.span,
+        nodeKind: node.kind,
+        ...(node.kind === NodeKind.Tag && { tagName: node.name }),
+    });
+    if (node.kind !== NodeKind.Tag || opaque) return [own(0, text.length)];
+
+    for (let i = inner.length - 1; i >= 0; i--) {
+        const piece = inner[i] as RenderedPiece;
+        if (piece.output === text) return shift(piece.segments, start);
+    }
+    const out: OutputSegment[] = [];
+    let pos = 0;
+    for (const [index, at] of placePieces(text, inner)) {
+        const piece = inner[index] as RenderedPiece;
+        if (at > pos) out.push(own(pos, at));
+        out.push(...shift(piece.segments, start + at));
+        pos = at + piece.output.length;
+    }
+    if (pos < text.length) out.push(own(pos, text.length));
+    return out;
+}
+
+/**
+ * Place `pieces` in `text` left to right, each at most once and none
+ * overlapping: at every step the piece that occurs first after the last one
+ * placed, the earliest rendered on a tie. Returns [index, position] pairs.
+ *
+ * Positions are tried in order, comparing a hash of the text there with the
+ * pieces of each length, so the work grows with the text times the number
+ * of distinct piece lengths rather than with pieces times text.
+ */
+function placePieces(
+    text: string,
+    pieces: readonly RenderedPiece[],
+): [number, number][] {
+    // Unplaced piece indices by length, then by hash of their output, last
+    // rendered first so that placing the earliest pops it.
+    const byLength = new Map<number, Map<number, number[]>>();
+    pieces.forEach((piece, index) => {
+        const length = piece.output.length;
+        if (length === 0 || length > text.length) return;
+        const byHash = byLength.get(length) ?? new Map<number, number[]>();
+        byLength.set(length, byHash);
+        const hash = hashOf(piece.output);
+        byHash.get(hash)?.push(index) ?? byHash.set(hash, [index]);
+    });
+    for (const byHash of byLength.values()) {
+        for (const list of byHash.values()) list.reverse();
+    }
+    // prefix[i] hashes text[0, i); powers[n] is HASH_BASE ** n.
+    const prefix = new Int32Array(text.length + 1);
+    const powers = new Int32Array(text.length + 1);
+    powers[0] = 1;
+    for (let i = 0; i < text.length; i++) {
+        const hash = Math.imul(prefix[i] as number, HASH_BASE);
+        prefix[i + 1] = hash + text.charCodeAt(i);
+        powers[i + 1] = Math.imul(powers[i] as number, HASH_BASE);
+    }
+
+    const placed: [number, number][] = [];
+    let at = 0;
+    while (at < text.length && byLength.size > 0) {
+        let best: [index: number, length: number, hash: number] | undefined;
+        for (const [length, byHash] of byLength) {
+            if (at + length > text.length) continue;
+            const end = prefix[at + length] as number;
+            const shifted = Math.imul(
+                prefix[at] as number,
+                powers[length] as number,
+            );
+            const hash = (end - shifted) | 0;
+            const list = byHash.get(hash) ?? [];
+            for (let i = list.length - 1; i >= 0; i--) {
+                const index = list[i] as number;
+                if (best && best[0] < index) break;
+                const { output } = pieces[index] as RenderedPiece;
+                if (!text.startsWith(output, at)) continue;
+                best = [index, length, hash];
+                break;
+            }
+        }
+        if (!best) {
+            at++;
+            continue;
+        }
+        const [index, length, hash] = best;
+        const byHash = byLength.get(length) as Map<number, number[]>;
+        const list = byHash.get(hash) as number[];
+        if (list.at(-1) === index) list.pop();
+        else list.splice(list.indexOf(index), 1);
+        if (list.length === 0 && byHash.delete(hash) && byHash.size === 0) {
+            byLength.delete(length);
+        }
+        placed.push([index, at]);
+        at += length;
+    }
+    return placed;
+}
+
+const HASH_BASE = 31;
+
+/** A polynomial hash of `s` that wraps at 32 bits, as placePieces() uses. */
+function hashOf(s: string): number {
+    let hash = 0;
+    for (let i = 0; i < s.length; i++) {
+        hash = (Math.imul(hash, HASH_BASE) + s.charCodeAt(i)) | 0;
+    }
+    return hash;
+}
+
+function shift(
+    segments: readonly OutputSegment[],
+    by: number,
+): OutputSegment[] {
+    return segments.map((s) => ({
+        ...s,
+        outputStart: s.outputStart + by,
+        outputEnd: s.outputEnd + by,
+    }));
+}
@@ -4,10 +4,24 @@ import type {
     ParserOptions,
     TemplateNode,
 } from "../../types.js";
+import { SerializationError } from "../errors/Errors.js";
 import { parse } from "../parser/Parser.js";
-import { collectTagNames, collectVariableNames } from "../visitor/Visitor.js";
-import { type RenderOptions, render } from "./Render.js";
+import {
+    collectPartialNames,
+    collectTagNames,
+    collectVariableNames,
+} from "../visitor/Visitor.js";
+import { compileToFunction, type RenderFunction } from "./Codegen.js";
+import {
+    type MappedRender,
+    type RenderOptions,
+    type RenderReport,
+    render,
+    renderWithMap,
+} from "./Render.js";
 import { type RenderAsyncOptions, renderAsync } from "./RenderAsync.js";
+import { renderStream } from "./RenderStream.js";
+import { deserialize, type SerializeOptions, serialize } from "./Serialize.js";
 
 /**
  * The friendly facade most users will reach for.
@@ -21,38 +35,132 @@ import { type RenderAsyncOptions, renderAsync } from "./RenderAsync.js";
 export class Template {
     public readonly compiled: CompiledTemplate;
     public readonly diagnostics: readonly ParseDiagnostic[];
+    private readonly options: ParserOptions;
 
     private constructor(
         compiled: CompiledTemplate,
         diagnostics: readonly ParseDiagnostic[],
+        options: ParserOptions,
     ) {
         this.compiled = compiled;
         this.diagnostics = diagnostics;
+        this.options = options;
     }
 
     public static compile(source: string, options?: ParserOptions): Template {
         const result = parse(source, options);
-        return new Template(result.template, result.diagnostics);
+        return new Template(result.template, result.diagnostics, options ?? {});
     }
 
-    public render<Ctx = unknown>(options?: RenderOptions<Ctx>): string {
+    /**
+     * Load a template from serialize() output. A payload of another format
+     * version, or compiled with other parser options, is recompiled from the
+     * source it carries. Diagnostics are not stored, so a loaded template
+     * has none; check templates before caching them.
+     */
+    public static fromSerialized(
+        payload: string,
+        options?: ParserOptions,
+    ): Template {
+        try {
+            return new Template(
+                deserialize(payload, options),
+                [],
+                options ?? {},
+            );
+        } catch (error) {
+            if (
+                !(error instanceof SerializationError) ||
+                error.source === undefined
+            ) {
+                throw error;
+            }
+            return Template.compile(error.source, options);
+        }
+    }
+
+    /** Encode for caching, with the parser options it was compiled with. */
+    public serialize(
+        options?: Omit<SerializeOptions, "parserOptions">,
+    ): string {
+        return serialize(this.compiled, {
+            ...options,
+            parserOptions: this.options,
+        });
+    }
+
+    public render<Ctx = unknown>(
+        options: RenderOptions<Ctx> & { readonly errorMode: "collect" },
+    ): RenderReport;
+    public render<Ctx = unknown>(
+        options?: RenderOptions<Ctx> & { readonly errorMode?: "throw" },
+    ): string;
+    public render<Ctx = unknown>(
+        options?: RenderOptions<Ctx>,
+    ): string | RenderReport;
+    public render<Ctx = unknown>(
+        options?: RenderOptions<Ctx>,
+    ): string | RenderReport {
         return render(this.compiled, options);
     }
 
+    /** Render and map each run of output to the node that emitted it. */
+    public renderWithMap<Ctx = unknown>(
+        options?: RenderOptions<Ctx>,
+    ): MappedRender {
+        return renderWithMap(this.compiled, options);
+    }
+
+    public async renderAsync<Ctx = unknown>(
+        options: RenderAsyncOptions<Ctx> & { readonly errorMode: "collect" },
+    ): Promise<RenderReport>;
+    public async renderAsync<Ctx = unknown>(
+        options?: RenderAsyncOptions<Ctx> & { readonly errorMode?: "throw" },
+    ): Promise<string>;
     public async renderAsync<Ctx = unknown>(
         options?: RenderAsyncOptions<Ctx>,
-    ): Promise<string> {
+    ): Promise<string | RenderReport>;
+    public async renderAsync<Ctx = unknown>(
+        options?: RenderAsyncOptions<Ctx>,
+    ): Promise<string | RenderReport> {
         return renderAsync(this.compiled, options);
     }
 
+    /** Render asynchronously, yielding each top-level node's output as it resolves. */
+    public renderStream<Ctx = unknown>(
+        options?: RenderAsyncOptions<Ctx>,
+    ): AsyncGenerator<string, RenderReport | undefined, undefined> {
+        return renderStream(this.compiled, options);
+    }
+
+    /**
+     * Compile to a reusable render function for hot paths. Call once and keep
+     * the result; it accepts the same options as render().
+     */
+    public compileToFunction<Ctx = unknown>(): RenderFunction<Ctx> {
+        return compileToFunction<Ctx>(this.compiled);
+    }
+
     /** Set of variable names referenced anywhere in the template. */
     public get variableNames(): Set<string> {
-        return collectVariableNames(this.compiled.nodes);
+        return collectVariableNames(this.withMacroBodies());
     }
 
-    /** Set of tag names used in the template. */
+    /** Set of tag names used in the template, apart from its own macros. */
     public get tagNames(): Set<string> {
-        return collectTagNames(this.compiled.nodes);
+        const names = collectTagNames(this.withMacroBodies());
+        for (const name of this.macroNames) names.delete(name);
+        return names;
+    }
+
+    /** Set of partial names this template includes by literal name. */
+    public get partialNames(): Set<string> {
+        return collectPartialNames(this.withMacroBodies());
+    }
+
+    /** Set of the macros the template defines with `{define}`. */
+    public get macroNames(): Set<string> {
+        return new Set(Object.keys(this.compiled.macros ?? {}));
     }
 
     public get nodes(): readonly TemplateNode[] {
@@ -70,4 +178,11 @@ export class Template {
     public get hasWarnings(): boolean {
         return this.diagnostics.some((d) => d.severity === "warning");
     }
+
+    /** The template's nodes followed by the bodies of its macros. */
+    private withMacroBodies(): readonly TemplateNode[] {
+        const macros = Object.values(this.compiled.macros ?? {});
+        if (macros.length === 0) return this.compiled.nodes;
+        return [...this.compiled.nodes, ...macros.flatMap((m) => m.body)];
+    }
 }
@@ -1,4 +1,5 @@
-import type { TagHandler } from "../../types.js";
+import type { RenderContext, TagHandler } from "../../types.js";
+import { defineFormattingTag, SafeString } from "../compiler/SafeString.js";
 
 /**
  * Escape Discord markdown so user input renders as literal text.
@@ -117,6 +118,7 @@ export const roleTag: TagHandler = (args) => {
 
 /**
  * {emoji:name|id} → "<:name:id>" (or animated with {animEmoji:name|id})
+ * Discord requires the name to be 2–32 word characters.
  */
 export const emojiTag: TagHandler = (args) => {
     if (args.length !== 2) return "";
@@ -175,19 +177,59 @@ export const codeblockTag: TagHandler = (args) => {
     return `\`\`\`${lang}\n${safe}\n\`\`\``;
 };
 
+/** Names Discord accepts for custom emoji. */
+const EMOJI_NAME = /^\w{2,32}$/;
+
+/**
+ * `handler` with its output marked safe, so auto-escaping leaves the markup
+ * alone, where `trust` allows; anything else is escaped like plain text. The
+ * exported tags above return plain strings, and discordTags registers them
+ * through this.
+ */
+function markupTag(
+    handler: TagHandler,
+    trust: (args: readonly string[], ctx: RenderContext) => boolean = () =>
+        true,
+): TagHandler {
+    return (args, ctx, named) => {
+        const out = handler(args, ctx, named);
+        if (typeof out !== "string" || out === "" || !trust(args, ctx)) {
+            return out;
+        }
+        return new SafeString(out);
+    };
+}
+
+/** An emoji name that could smuggle markup gets its output escaped. */
+const validEmojiName = (args: readonly string[]) =>
+    EMOJI_NAME.test(args[0] ?? "");
+
+/**
+ * {escape}, {code} and {codeblock} output is only safe as Discord text: it is
+ * not escaped again under the "discord" and "markdown" modes, but is under
+ * any other escaper.
+ */
+const discordEscaping = (_args: readonly string[], ctx: RenderContext) =>
+    ctx.escape === escapeDiscord || ctx.escape === escapeDiscordMarkdown;
+
+/**
+ * The Discord tags, ready to register. Mentions, timestamps and emoji are
+ * marked safe; the formatting tags escape their arguments instead of their
+ * output (see defineFormattingTag()).
+ */
 export const discordTags = {
-    mention: mentionTag,
-    channel: channelTag,
-    role: roleTag,
-    emoji: emojiTag,
-    animEmoji: animEmojiTag,
-    timestamp: timestampTag,
-    escape: escapeTag,
-    bold: boldTag,
-    italic: italicTag,
-    underline: underlineTag,
-    strike: strikeTag,
-    code: codeTag,
-    spoiler: spoilerTag,
-    codeblock: codeblockTag,
+    mention: markupTag(mentionTag),
+    channel: markupTag(channelTag),
+    role: markupTag(roleTag),
+    emoji: markupTag(emojiTag, validEmojiName),
+    animEmoji: markupTag(animEmojiTag, validEmojiName),
+    timestamp: markupTag(timestampTag),
+    escape: markupTag(escapeTag, discordEscaping),
+    bold: defineFormattingTag(boldTag),
+    italic: defineFormattingTag(italicTag),
+    underline: defineFormattingTag(underlineTag),
+    strike: defineFormattingTag(strikeTag),
+    code: markupTag(codeTag, discordEscaping),
+    spoiler: defineFormattingTag(spoilerTag),
+    codeblock: markupTag(codeblockTag, discordEscaping),
 } as const;
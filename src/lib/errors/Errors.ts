@@ -1,4 +1,9 @@
-import type { ParseDiagnostic, Position, Span } from "../../types.js";
+import type {
+    ParseDiagnostic,
+    Position,
+    RenderLimits,
+    Span,
+} from "../../types.js";
 
 function formatPosition(p: Position): string {
     return `line ${p.line}, column ${p.column}`;
@@ -62,6 +67,49 @@ export class RenderError extends TagParseError {
     }
 }
 
+/**
+ * Thrown by renderAsync() when its `signal` aborts or `timeoutMs` elapses.
+ * `span` points at the node that was being evaluated at the time; `reason`
+ * is the signal's abort reason.
+ */
+export class RenderAbortedError extends RenderError {
+    public readonly reason: unknown;
+
+    public constructor(
+        reason: unknown,
+        options?: ConstructorParameters<typeof RenderError>[1],
+    ) {
+        super(
+            reason instanceof Error
+                ? `Render aborted: ${reason.message}`
+                : "Render aborted",
+            { ...options, cause: reason },
+        );
+        this.name = "RenderAbortedError";
+        this.reason = reason;
+    }
+}
+
+/**
+ * Thrown when a render exceeds one of its `limits`. `limit` names the budget
+ * that ran out and `span` points at the node that crossed it.
+ */
+export class RenderLimitError extends RenderError {
+    public readonly limit: keyof RenderLimits;
+    public readonly max: number;
+
+    public constructor(
+        limit: keyof RenderLimits,
+        max: number,
+        options?: ConstructorParameters<typeof RenderError>[1],
+    ) {
+        super(`Render limit exceeded: ${limit} (${max})`, options);
+        this.name = "RenderLimitError";
+        this.limit = limit;
+        this.max = max;
+    }
+}
+
 export class MaxDepthError extends TagParseError {
     public constructor(depth: number, span?: Span) {
         super(
@@ -95,3 +143,25 @@ export class AggregateParseError extends TagParseError {
         this.diagnostics = diagnostics;
     }
 }
+
+/**
+ * Thrown by deserialize() for a payload it cannot use. `reason` is "invalid"
+ * for malformed data, "version" for another format version and "options" when
+ * the template was compiled with other parser options. A stale payload
+ * ("version" or "options") carries its template `source` for recompiling.
+ */
+export class SerializationError extends TagParseError {
+    public readonly reason: "invalid" | "version" | "options";
+    public readonly source?: string;
+
+    public constructor(
+        message: string,
+        reason: "invalid" | "version" | "options",
+        source?: string,
+    ) {
+        super(message);
+        this.name = "SerializationError";
+        this.reason = reason;
+        if (source !== undefined) this.source = source;
+    }
+}
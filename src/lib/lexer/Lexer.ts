@@ -22,15 +22,37 @@ function requiredCodePoint(value: string): number {
  *   - Escape character (\) suppresses the next delimiter at the lexer level,
  *     not after the fact in the parser. So `\{` always becomes a literal "{".
  *   - Multi-char delimiters via prefix match on the Stream, not buffer postfix.
+ *   - Optional quoted literals inside tags (see LexerOptions.quotes): one Text
+ *     token with `quoted: true`, its span covering the quotes. A quote with no
+ *     closing partner is plain text.
+ *   - `{# ... #}` comments (tag start, `#`, whitespace) become one Comment
+ *     token whose value is the raw source, markers included. An unterminated
+ *     comment runs to the end of input; the parser reports it.
+ *   - Trim markers: `{-` followed by whitespace, and whitespace followed by
+ *     `-}`, yield TagStart/TagEnd tokens with `trim: true`. Their value and
+ *     span include the marker and that whitespace; the parser does the
+ *     trimming.
+ *   - With `rawTag` set, `{raw}...{/raw}` is one verbatim Text token, marked
+ *     `quoted`, whose span covers both markers. Without a closing
+ *     marker `{raw}` lexes as a plain tag and the parser reports it.
+ *   - With `keepEscapes`, an escape sequence is one Escape token instead of
+ *     a Text token for the escaped character.
  */
 export class Lexer implements Iterable<Token> {
     public readonly tagStart: string;
     public readonly tagEnd: string;
     public readonly escapeChar: string;
+    public readonly quotes: string;
+    public readonly rawTag: string | undefined;
+    public readonly keepEscapes: boolean;
 
     private readonly tagStartCps: readonly number[];
     private readonly tagEndCps: readonly number[];
     private readonly escapeCp: number;
+    private readonly quoteCps: readonly number[];
+    private readonly commentEndCps: readonly number[];
+    private readonly rawOpenCps: readonly number[] | undefined;
+    private readonly rawCloseCps: readonly number[] | undefined;
 
     public constructor(
         private readonly input: string,
@@ -39,6 +61,10 @@ export class Lexer implements Iterable<Token> {
         this.tagStart = options.tagStart ?? DEFAULT_TAG_START;
         this.tagEnd = options.tagEnd ?? DEFAULT_TAG_END;
         this.escapeChar = options.escapeChar ?? DEFAULT_ESCAPE;
+        this.quotes = options.quotes ?? "";
+        const rawTag = options.rawTag ?? false;
+        this.rawTag = rawTag === false ? undefined : rawTag;
+        this.keepEscapes = options.keepEscapes ?? false;
 
         if (this.tagStart.length === 0)
             throw new Error("tagStart cannot be empty");
@@ -48,12 +74,30 @@ export class Lexer implements Iterable<Token> {
 
         this.tagStartCps = [...this.tagStart].map((c) => requiredCodePoint(c));
         this.tagEndCps = [...this.tagEnd].map((c) => requiredCodePoint(c));
+        this.commentEndCps = [0x23 /* # */, ...this.tagEndCps];
         this.escapeCp = requiredCodePoint(this.escapeChar);
+        this.quoteCps = [...this.quotes].map((c) => requiredCodePoint(c));
+        if (this.quoteCps.includes(this.escapeCp))
+            throw new Error("quotes cannot include the escape character");
+        if (this.rawTag !== undefined) {
+            if (this.rawTag.length === 0)
+                throw new Error("rawTag cannot be empty");
+            const name = [...this.rawTag].map((c) => requiredCodePoint(c));
+            this.rawOpenCps = [...this.tagStartCps, ...name, ...this.tagEndCps];
+            this.rawCloseCps = [
+                ...this.tagStartCps,
+                0x2f /* / */,
+                ...name,
+                ...this.tagEndCps,
+            ];
+        }
     }
 
     public *[Symbol.iterator](): IterableIterator<Token> {
         const stream = new Stream(this.input);
         let tagDepth = 0; // supports nested tags
+        // Once a `{raw}` finds no closing marker, no later one can.
+        const raw = { unclosed: false };
 
         while (!stream.eof()) {
             const start = stream.position;
@@ -69,6 +113,14 @@ export class Lexer implements Iterable<Token> {
                 }
                 const escapedStart = stream.position;
                 const escaped = stream.advance();
+                if (this.keepEscapes) {
+                    yield {
+                        kind: TokenKind.Escape,
+                        value: String.fromCodePoint(escaped),
+                        span: spanOf(start, stream.position),
+                    };
+                    continue;
+                }
                 yield textToken(
                     String.fromCodePoint(escaped),
                     escapedStart,
@@ -77,18 +129,64 @@ export class Lexer implements Iterable<Token> {
                 continue;
             }
 
+            const verbatim = this.readRaw(stream, raw);
+            if (verbatim !== undefined) {
+                yield {
+                    kind: TokenKind.Text,
+                    value: verbatim,
+                    span: spanOf(start, stream.position),
+                    quoted: true,
+                };
+                continue;
+            }
+
+            if (this.atComment(stream)) {
+                let value = stream.advanceN(this.tagStartCps.length + 1);
+                while (!stream.eof() && !stream.matches(this.commentEndCps)) {
+                    value += String.fromCodePoint(stream.advance());
+                }
+                value += stream.advanceN(this.commentEndCps.length);
+                yield {
+                    kind: TokenKind.Comment,
+                    value,
+                    span: spanOf(start, stream.position),
+                };
+                continue;
+            }
+
             // Multi-character delimiter detection.
             if (stream.matches(this.tagStartCps)) {
-                const value = stream.advanceN(this.tagStartCps.length);
+                const n = this.tagStartCps.length;
+                const trim =
+                    stream.peek(n) === 0x2d /* - */ &&
+                    isSpace(stream.peek(n + 1));
+                let value = stream.advanceN(trim ? n + 1 : n);
+                while (trim && isSpace(stream.peek())) {
+                    value += String.fromCodePoint(stream.advance());
+                }
                 yield {
                     kind: TokenKind.TagStart,
                     value,
                     span: spanOf(start, stream.position),
+                    ...(trim && { trim }),
                 };
                 tagDepth++;
                 continue;
             }
 
+            const trimEnd = tagDepth > 0 ? this.trimEndLength(stream) : 0;
+            if (trimEnd > 0) {
+                const value = stream.advanceN(trimEnd);
+                yield {
+                    kind: TokenKind.TagEnd,
+                    value,
+                    span: spanOf(start, stream.position),
+                    trim: true,
+                };
+                tagDepth--;
+                continue;
+            }
+
             if (tagDepth > 0 && stream.matches(this.tagEndCps)) {
                 const value = stream.advanceN(this.tagEndCps.length);
                 yield {
@@ -100,6 +198,26 @@ export class Lexer implements Iterable<Token> {
                 continue;
             }
 
+            if (tagDepth > 0 && this.quoteCps.includes(cp)) {
+                const value = this.readQuoted(stream, cp);
+                if (value !== undefined) {
+                    yield {
+                        kind: TokenKind.Text,
+                        value,
+                        span: spanOf(start, stream.position),
+                        quoted: true,
+                    };
+                } else {
+                    stream.advance();
+                    yield textToken(
+                        String.fromCodePoint(cp),
+                        start,
+                        stream.position,
+                    );
+                }
+                continue;
+            }
+
             // Inside a tag: colon/pipe are structural.
             if (tagDepth > 0) {
                 if (cp === 0x3a /* : */) {
@@ -132,6 +250,14 @@ export class Lexer implements Iterable<Token> {
                 if (tagDepth > 0) {
                     if (stream.matches(this.tagEndCps)) break;
                     if (c === 0x3a /* : */ || c === 0x7c /* | */) break;
+                    if (this.quoteCps.includes(c)) break;
+                    if (isSpace(c)) {
+                        // Take the whole whitespace run, unless it ends in `-}`.
+                        const k = spaceRunLength(stream);
+                        if (this.trimEndAfter(stream, k) > 0) break;
+                        run += stream.advanceN(k);
+                        continue;
+                    }
                 }
                 stream.advance();
                 run += String.fromCodePoint(c);
@@ -147,6 +273,96 @@ export class Lexer implements Iterable<Token> {
             span: { start: stream.position, end: stream.position },
         };
     }
+
+    /**
+     * Consume a `{raw}...{/raw}` region and return its contents, or return
+     * undefined, consuming nothing, if there is none or it is never closed.
+     * `raw.unclosed` records that the input has no closing marker left, so
+     * the scan for it runs at most once.
+     */
+    private readRaw(
+        stream: Stream,
+        raw: { unclosed: boolean },
+    ): string | undefined {
+        const open = this.rawOpenCps;
+        const close = this.rawCloseCps;
+        if (!open || !close || raw.unclosed || !stream.matches(open))
+            return undefined;
+        let k = open.length;
+        while (!stream.matches(close, k)) {
+            if (stream.peek(k) === -1) {
+                raw.unclosed = true;
+                return undefined;
+            }
+            k++;
+        }
+        stream.advanceN(open.length);
+        const value = stream.advanceN(k - open.length);
+        stream.advanceN(close.length);
+        return value;
+    }
+
+    /** Length of a `<whitespace>-}` trim marker at the stream, or 0. */
+    private trimEndLength(stream: Stream): number {
+        return this.trimEndAfter(stream, spaceRunLength(stream));
+    }
+
+    /**
+     * Length of a trim marker whose whitespace is the `k` code points at the
+     * stream, or 0 if `-}` does not follow them.
+     */
+    private trimEndAfter(stream: Stream, k: number): number {
+        if (k === 0 || stream.peek(k) !== 0x2d /* - */) return 0;
+        for (let i = 0; i < this.tagEndCps.length; i++) {
+            if (stream.peek(k + 1 + i) !== this.tagEndCps[i]) return 0;
+        }
+        return k + 1 + this.tagEndCps.length;
+    }
+
+    /** Tag start, then `#`, then whitespace. */
+    private atComment(stream: Stream): boolean {
+        if (!stream.matches(this.tagStartCps)) return false;
+        const n = this.tagStartCps.length;
+        if (stream.peek(n) !== 0x23 /* # */) return false;
+        const next = stream.peek(n + 1);
+        return next !== -1 && /\s/.test(String.fromCodePoint(next));
+    }
+
+    /**
+     * Consume a quoted literal opening at the stream's position and return its
+     * contents, with escapes applied. Returns undefined, consuming nothing,
+     * when the quote is never closed.
+     */
+    private readQuoted(stream: Stream, quote: number): string | undefined {
+        let k = 1;
+        for (;;) {
+            const c = stream.peek(k);
+            if (c === -1) return undefined;
+            if (c === quote) break;
+            k += c === this.escapeCp ? 2 : 1;
+        }
+
+        stream.advance(); // opening quote
+        let value = "";
+        for (;;) {
+            const c = stream.advance();
+            if (c === quote) return value;
+            value += String.fromCodePoint(
+                c === this.escapeCp ? stream.advance() : c,
+            );
+        }
+    }
+}
+
+function isSpace(cp: number): boolean {
+    return cp === 0x20 || cp === 0x09 || cp === 0x0a || cp === 0x0d;
+}
+
+/** Number of whitespace code points at the stream. */
+function spaceRunLength(stream: Stream): number {
+    let k = 0;
+    while (isSpace(stream.peek(k))) k++;
+    return k;
 }
 
 function textToken(value: string, start: Position, end: Position): Token {
@@ -47,11 +47,13 @@ export class Stream {
     /**
      * Look ahead and check whether the next `chars` match exactly (by code point).
      * Used for multi-character delimiter detection — replaces the v1 buffer-postfix dance.
+     * `offset` looks further ahead without consuming.
      */
-    public matches(chars: readonly number[]): boolean {
-        if (this.index + chars.length > this.codePoints.length) return false;
+    public matches(chars: readonly number[], offset = 0): boolean {
+        const at = this.index + offset;
+        if (at + chars.length > this.codePoints.length) return false;
         for (let i = 0; i < chars.length; i++) {
-            if (this.codePoints[this.index + i] !== chars[i]) return false;
+            if (this.codePoints[at + i] !== chars[i]) return false;
         }
         return true;
     }
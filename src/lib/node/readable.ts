@@ -0,0 +1,26 @@
+import { Readable, type ReadableOptions } from "node:stream";
+import type { CompiledTemplate } from "../../types.js";
+import type { RenderAsyncOptions } from "../compiler/RenderAsync.js";
+import { renderStream } from "../compiler/RenderStream.js";
+
+/**
+ * Adapt a chunk iterable (usually from renderStream()) to a Node `Readable`.
+ * Byte mode by default so it can be piped straight into an HTTP response or
+ * file; pass `{ objectMode: true }` to get one string per chunk instead.
+ */
+export function toReadable(
+    source: AsyncIterable<string>,
+    options: ReadableOptions = {},
+): Readable {
+    return Readable.from(source, { objectMode: false, ...options });
+}
+
+/**
+ * Shorthand for `toReadable(renderStream(template, options))`.
+ */
+export function renderReadable<Ctx = unknown>(
+    template: CompiledTemplate,
+    options?: RenderAsyncOptions<Ctx>,
+): Readable {
+    return toReadable(renderStream(template, options));
+}
@@ -0,0 +1,123 @@
+import type {
+    CstArgument,
+    CstNode,
+    CstTag,
+    LexerOptions,
+    Position,
+    Token,
+} from "../../types.js";
+import { CstKind, TokenKind } from "../../types.js";
+import { Lexer } from "../lexer/Lexer.js";
+
+/**
+ * Build the lossless syntax tree of `input`: the token stream nested by tag
+ * delimiters, each piece keeping its source text. Never fails; unclosed tags
+ * run to the end of input. Printing the result gives back `input` exactly.
+ */
+export function buildCst(input: string, options: LexerOptions): CstNode[] {
+    const tokens = [...new Lexer(input, { ...options, keepEscapes: true })];
+    let source: string[] | undefined; // code points, split on first use
+    const raw = (tok: Token): string => {
+        source ??= Array.from(input);
+        return source
+            .slice(tok.span.start.offset, tok.span.end.offset)
+            .join("");
+    };
+    let i = 0;
+
+    /** Nodes up to the end of input, or to a `:`, `|` or tag end in a tag. */
+    const nodes = (inTag: boolean, afterName: boolean): CstNode[] => {
+        const out: CstNode[] = [];
+        const text = (value: string, start: Position, end: Position) => {
+            const last = out.at(-1);
+            if (last?.kind === CstKind.Text) {
+                out[out.length - 1] = {
+                    kind: CstKind.Text,
+                    text: last.text + value,
+                    span: { start: last.span.start, end },
+                };
+            } else {
+                out.push({
+                    kind: CstKind.Text,
+                    text: value,
+                    span: { start, end },
+                });
+            }
+        };
+        for (;;) {
+            const tok = tokens[i] as Token;
+            switch (tok.kind) {
+                case TokenKind.EOF:
+                    return out;
+                case TokenKind.TagStart:
+                    i++;
+                    out.push(tag(tok));
+                    continue;
+                case TokenKind.Escape:
+                    i++;
+                    out.push({
+                        kind: CstKind.Escape,
+                        char: tok.value,
+                        text: raw(tok),
+                        span: tok.span,
+                    });
+                    continue;
+                case TokenKind.Comment:
+                    i++;
+                    out.push({
+                        kind: CstKind.Comment,
+                        text: raw(tok),
+                        span: tok.span,
+                    });
+                    continue;
+                case TokenKind.TagEnd:
+                case TokenKind.Pipe:
+                    if (inTag) return out;
+                    break;
+                case TokenKind.Colon:
+                    // Only the first `:` of a tag separates; later ones are text.
+                    if (inTag && !afterName) return out;
+                    break;
+            }
+            i++;
+            text(raw(tok), tok.span.start, tok.span.end);
+        }
+    };
+
+    const tag = (open: Token): CstTag => {
+        const name = nodes(true, false);
+        const args: CstArgument[] = [];
+        for (;;) {
+            const tok = tokens[i] as Token;
+            if (tok.kind === TokenKind.Colon || tok.kind === TokenKind.Pipe) {
+                i++;
+                const inner = nodes(true, true);
+                const end = inner.at(-1)?.span.end ?? tok.span.end;
+                args.push({
+                    kind: CstKind.Argument,
+                    separator: tok.kind === TokenKind.Colon ? ":" : "|",
+                    nodes: inner,
+                    span: { start: tok.span.start, end },
+                });
+                continue;
+            }
+            const base = { kind: CstKind.Tag, open: raw(open), name, args };
+            if (tok.kind === TokenKind.TagEnd) {
+                i++;
+                return {
+                    ...base,
+                    close: raw(tok),
+                    span: { start: open.span.start, end: tok.span.end },
+                };
+            }
+            // End of input: the tag is never closed.
+            const last = args.at(-1) ?? name.at(-1) ?? open;
+            return {
+                ...base,
+                span: { start: open.span.start, end: last.span.end },
+            };
+        }
+    };
+
+    return nodes(false, false);
+}
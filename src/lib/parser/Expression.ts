@@ -0,0 +1,336 @@
+import type {
+    ComparisonOperator,
+    Expr,
+    IdentifierExpr,
+    ParseDiagnostic,
+    Position,
+    Span,
+} from "../../types.js";
+import { ExprKind } from "../../types.js";
+
+/**
+ * Parser for the condition language of expression tags:
+ *
+ *   or   := and (("or") and)*
+ *   and  := not (("&&" | "and") not)*
+ *   not  := ("!" | "not") not | cmp
+ *   cmp  := atom (("==" | "!=" | "<" | "<=" | ">" | ">=") atom)?
+ *   atom := number | string | true | false | null | identifier | "(" or ")"
+ *
+ * `||` is missing on purpose: `|` separates tag arguments. Comparisons do not
+ * chain (`a < b < c` is an error). Nothing here evaluates code; the renderers
+ * walk the resulting Expr tree.
+ */
+
+type ExprTokenKind =
+    | "number"
+    | "string"
+    | "identifier"
+    | "operator"
+    | "open"
+    | "close"
+    | "unknown";
+
+interface ExprToken {
+    readonly kind: ExprTokenKind;
+    readonly value: string;
+    readonly span: Span;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "<", ">", "!"] as const;
+const WORD_OPERATORS = new Set(["and", "or", "not"]);
+const NUMBER = /^-?\d+(?:\.\d+)?/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*/;
+const KEYWORDS = new Set([...WORD_OPERATORS, "true", "false", "null"]);
+const COMPARISONS = new Set<string>(["==", "!=", "<", "<=", ">", ">="]);
+
+export type ExpressionResult =
+    | { readonly expression: Expr }
+    | { readonly diagnostic: ParseDiagnostic };
+
+/**
+ * Parse `source`, which starts at `start` in the template. Returns undefined
+ * when the text has no operator, so plain words and sentences stay text.
+ */
+export function parseExpression(
+    source: string,
+    start: Position,
+): ExpressionResult | undefined {
+    const tokens = tokenize(source, start);
+    if (!tokens.some(isOperator)) return undefined;
+
+    const end = tokens.at(-1)?.span.end ?? start;
+    let i = 0;
+    const peek = (): ExprToken | undefined => tokens[i];
+    const fail = (token: ExprToken | undefined): never => {
+        throw token
+            ? new ExpressionError(
+                  `Unexpected '${token.value}' in expression`,
+                  token.span,
+              )
+            : new ExpressionError("Unexpected end of expression", {
+                  start: end,
+                  end,
+              });
+    };
+    const take = (...values: string[]): ExprToken | undefined => {
+        const t = tokens[i];
+        if (t && t.kind === "operator" && values.includes(t.value)) {
+            i++;
+            return t;
+        }
+        return undefined;
+    };
+    const logical = (
+        next: () => Expr,
+        operator: "&&" | "||",
+        ...spellings: string[]
+    ): Expr => {
+        let left = next();
+        while (take(...spellings)) {
+            const right = next();
+            left = {
+                kind: ExprKind.Logical,
+                operator,
+                left,
+                right,
+                span: { start: left.span.start, end: right.span.end },
+            };
+        }
+        return left;
+    };
+
+    const or = (): Expr => logical(and, "||", "or");
+    const and = (): Expr => logical(not, "&&", "&&", "and");
+    const not = (): Expr => {
+        const op = take("!", "not");
+        if (!op) return comparison();
+        const argument = not();
+        return {
+            kind: ExprKind.Unary,
+            operator: "!",
+            argument,
+            span: { start: op.span.start, end: argument.span.end },
+        };
+    };
+    const comparison = (): Expr => {
+        const left = atom();
+        const op = peek();
+        if (op?.kind !== "operator" || !COMPARISONS.has(op.value)) return left;
+        i++;
+        const right = atom();
+        return {
+            kind: ExprKind.Binary,
+            operator: op.value as ComparisonOperator,
+            left,
+            right,
+            span: { start: left.span.start, end: right.span.end },
+        };
+    };
+    const atom = (): Expr => {
+        const t = peek();
+        if (!t) return fail(t);
+        i++;
+        switch (t.kind) {
+            case "number":
+                return {
+                    kind: ExprKind.Literal,
+                    value: Number(t.value),
+                    span: t.span,
+                };
+            case "string":
+                return { kind: ExprKind.Literal, value: t.value, span: t.span };
+            case "identifier":
+                if (t.value === "true" || t.value === "false") {
+                    return {
+                        kind: ExprKind.Literal,
+                        value: t.value === "true",
+                        span: t.span,
+                    };
+                }
+                if (t.value === "null") {
+                    return {
+                        kind: ExprKind.Literal,
+                        value: null,
+                        span: t.span,
+                    };
+                }
+                return {
+                    kind: ExprKind.Identifier,
+                    name: t.value,
+                    span: t.span,
+                };
+            case "open": {
+                const inner = or();
+                if (peek()?.kind !== "close") return fail(peek());
+                i++;
+                return inner;
+            }
+            default:
+                return fail(t);
+        }
+    };
+
+    try {
+        const expression = or();
+        if (i < tokens.length) fail(peek());
+        return { expression };
+    } catch (err) {
+        if (!(err instanceof ExpressionError)) throw err;
+        const { message, span } = err;
+        return { diagnostic: { severity: "error", message, span } };
+    }
+}
+
+/** Every variable an expression reads, in source order. */
+export function expressionIdentifiers(expr: Expr): string[] {
+    return identifierExprs(expr).map((id) => id.name);
+}
+
+/**
+ * Rename variables of the expression `expr`, parsed from `source` at
+ * `start`. `rename` is called for each one in source order and returns its
+ * new name, or undefined to keep it. Returns the rewritten source, parsed
+ * again, or undefined when nothing was renamed. Throws a TypeError for a new
+ * name that is not a variable name.
+ */
+export function renameIdentifiers(
+    source: string,
+    start: Position,
+    expr: Expr,
+    rename: (id: IdentifierExpr) => string | undefined,
+): { readonly source: string; readonly expression: Expr } | undefined {
+    const edits: [IdentifierExpr, string][] = [];
+    for (const id of identifierExprs(expr)) {
+        const name = rename(id);
+        if (name === undefined || name === id.name) continue;
+        if (IDENTIFIER.exec(name)?.[0] !== name || KEYWORDS.has(name)) {
+            throw new TypeError(`'${name}' is not a valid variable name`);
+        }
+        edits.push([id, name]);
+    }
+    if (edits.length === 0) return undefined;
+    const chars = Array.from(source);
+    for (const [id, name] of edits.reverse()) {
+        const from = id.span.start.offset - start.offset;
+        chars.splice(from, id.span.end.offset - id.span.start.offset, name);
+    }
+    const renamed = chars.join("");
+    const result = parseExpression(renamed, start);
+    if (!result || !("expression" in result)) {
+        throw new Error(`Renamed expression '${renamed}' does not parse`);
+    }
+    return { source: renamed, expression: result.expression };
+}
+
+function identifierExprs(expr: Expr): IdentifierExpr[] {
+    switch (expr.kind) {
+        case ExprKind.Literal:
+            return [];
+        case ExprKind.Identifier:
+            return [expr];
+        case ExprKind.Unary:
+            return identifierExprs(expr.argument);
+        case ExprKind.Binary:
+        case ExprKind.Logical:
+            return [
+                ...identifierExprs(expr.left),
+                ...identifierExprs(expr.right),
+            ];
+    }
+}
+
+/** Thrown inside parseExpression() to unwind to its diagnostic. */
+class ExpressionError extends Error {
+    public constructor(
+        message: string,
+        public readonly span: Span,
+    ) {
+        super(message);
+    }
+}
+
+function isOperator(t: ExprToken): boolean {
+    return t.kind === "operator";
+}
+
+/**
+ * Split `source` into tokens. Never fails: characters that fit nowhere, and
+ * the quote of an unterminated string, become "unknown" tokens, which the
+ * parser reports.
+ */
+function tokenize(source: string, start: Position): ExprToken[] {
+    const tokens: ExprToken[] = [];
+    let pos = start;
+    let rest = source;
+    const push = (kind: ExprTokenKind, text: string, value = text) => {
+        const end = after(pos, text);
+        tokens.push({ kind, value, span: { start: pos, end } });
+        pos = end;
+        rest = rest.slice(text.length);
+    };
+
+    while (rest.length > 0) {
+        const ch = rest[0] as string;
+        if (/\s/.test(ch)) {
+            pos = after(pos, ch);
+            rest = rest.slice(1);
+            continue;
+        }
+        const string = ch === '"' || ch === "'" ? readString(rest, ch) : null;
+        if (string) {
+            push("string", string[0], string[1]);
+            continue;
+        }
+        if (ch === "(" || ch === ")") {
+            push(ch === "(" ? "open" : "close", ch);
+            continue;
+        }
+        const number = NUMBER.exec(rest)?.[0];
+        if (number) {
+            push("number", number);
+            continue;
+        }
+        const word = IDENTIFIER.exec(rest)?.[0];
+        if (word) {
+            push(WORD_OPERATORS.has(word) ? "operator" : "identifier", word);
+            continue;
+        }
+        const op = OPERATORS.find((o) => rest.startsWith(o));
+        if (op) {
+            push("operator", op);
+            continue;
+        }
+        push("unknown", String.fromCodePoint(rest.codePointAt(0) as number));
+    }
+    return tokens;
+}
+
+/**
+ * The source text of the string literal opening `rest` and its value, with
+ * backslash escapes applied; null if it is never closed.
+ */
+function readString(rest: string, quote: string): [string, string] | null {
+    let value = "";
+    for (let k = 1; k < rest.length; k++) {
+        if (rest[k] === quote) return [rest.slice(0, k + 1), value];
+        if (rest[k] === "\\") k++;
+        value += rest[k] ?? "";
+    }
+    return null;
+}
+
+/** The position after `text`, starting at `pos`. Offsets count code points. */
+function after(pos: Position, text: string): Position {
+    let { line, column, offset } = pos;
+    for (const ch of text) {
+        offset++;
+        if (ch === "\n") {
+            line++;
+            column = 1;
+        } else {
+            column++;
+        }
+    }
+    return { line, column, offset };
+}
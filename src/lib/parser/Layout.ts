@@ -0,0 +1,283 @@
+import type {
+    ArgumentNode,
+    CompiledTemplate,
+    MacroDefinition,
+    ParseDiagnostic,
+    ParserOptions,
+    TagNode,
+    TemplateNode,
+} from "../../types.js";
+import { NodeKind } from "../../types.js";
+import { parse } from "./Parser.js";
+
+/** The tag a child template names its layout with. */
+export const EXTENDS_TAG = "extends";
+/** The tag that declares a slot in a layout, and fills one in a child. */
+export const SLOT_TAG = "slot";
+
+interface LayoutState {
+    readonly layouts: Readonly<Record<string, string>>;
+    /** Parser options for layout sources, without `layouts`. */
+    readonly options: ParserOptions;
+    readonly diagnostics: ParseDiagnostic[];
+    /** The child's macros; layouts add theirs unless the name is taken. */
+    readonly macros: Map<string, MacroDefinition>;
+    /** Layouts by name, parsed on first use. */
+    readonly parsed: Map<string, CompiledTemplate>;
+}
+
+type Fills = ReadonlyMap<string, readonly TemplateNode[]>;
+
+/**
+ * Resolve `{extends:name}` against ParserOptions.layouts. The child's
+ * top-level `{slot:name|content}` tags fill the layout's slots, every other
+ * slot renders its default content, and the result replaces the child's
+ * nodes. Layouts may extend layouts; a fill may declare slots of its own for
+ * the templates extending it. Templates without `{extends}` just get their
+ * slot defaults.
+ *
+ * Nodes taken from a layout keep their spans, which point into the layout's
+ * source. A layout's macros are added to `macros`.
+ */
+export function resolveLayouts(
+    nodes: readonly TemplateNode[],
+    layouts: Readonly<Record<string, string>>,
+    options: ParserOptions,
+    diagnostics: ParseDiagnostic[],
+    macros: Map<string, MacroDefinition>,
+): readonly TemplateNode[] {
+    const state = { layouts, options, diagnostics, macros, parsed: new Map() };
+    return expand(nodes, new Map(), [], state, new Set());
+}
+
+/**
+ * Expand `nodes` with the slot fills of the templates extending it. Every
+ * slot name met on the way is added to `declared`.
+ */
+function expand(
+    nodes: readonly TemplateNode[],
+    outer: Fills,
+    chain: readonly string[],
+    state: LayoutState,
+    declared: Set<string>,
+): readonly TemplateNode[] {
+    const extend = nodes.filter((n) => isTag(n, EXTENDS_TAG)) as TagNode[];
+    const node = extend[0];
+    if (!node) return fillSlots(nodes, outer, state, declared);
+    for (const extra of extend.slice(1)) {
+        state.diagnostics.push({
+            severity: "error",
+            message: "A template can extend only one layout",
+            span: extra.span,
+        });
+    }
+
+    const own = new Map<string, TagNode>();
+    for (const n of nodes) {
+        if (n.kind === NodeKind.Comment || extend.includes(n as TagNode)) {
+            continue;
+        }
+        if (isTag(n, SLOT_TAG)) {
+            const name = slotName(n, state);
+            if (name === undefined) continue;
+            if (own.has(name)) {
+                state.diagnostics.push({
+                    severity: "warning",
+                    message: `Slot '${name}' is filled twice`,
+                    span: n.span,
+                    hint: "The last fill wins.",
+                });
+            }
+            own.set(name, n);
+        } else if (n.kind !== NodeKind.Text || n.value.trim() !== "") {
+            state.diagnostics.push({
+                severity: "warning",
+                message:
+                    "Content outside {slot} is ignored in a template that extends a layout",
+                span: n.span,
+            });
+        }
+    }
+
+    const name = literalText(node.args[0]);
+    const fail = (message: string) => {
+        state.diagnostics.push({ severity: "error", message, span: node.span });
+        // Render the child on its own, as if it had no {extends}.
+        return fillSlots(
+            nodes.filter((n) => n !== node),
+            outer,
+            state,
+            declared,
+        );
+    };
+    if (name === undefined) return fail("Layout name must be literal text");
+    if (chain.includes(name)) {
+        return fail(
+            `Layout '${name}' extends itself: ${[...chain, name].join(" → ")}`,
+        );
+    }
+    const layout = loadLayout(name, node, state);
+    if (!layout) return fail(`Unknown layout '${name}'`);
+    for (const macro of Object.values(layout.macros ?? {})) {
+        if (!state.macros.has(macro.name)) state.macros.set(macro.name, macro);
+    }
+
+    // Fills from further out override this template's fills of the same name.
+    const fills = new Map<string, readonly TemplateNode[]>();
+    for (const [slot, tag] of own) {
+        fills.set(
+            slot,
+            fillSlots(tag.args[1]?.nodes ?? [], outer, state, declared),
+        );
+    }
+    for (const [slot, content] of outer) fills.set(slot, content);
+
+    const inLayout = new Set<string>();
+    const result = expand(
+        layout.nodes,
+        fills,
+        [...chain, name],
+        state,
+        inLayout,
+    );
+    for (const [slot, tag] of own) {
+        if (inLayout.has(slot)) continue;
+        state.diagnostics.push({
+            severity: "error",
+            message: `Slot '${slot}' is not defined by layout '${name}'`,
+            span: tag.span,
+        });
+    }
+    for (const slot of inLayout) declared.add(slot);
+    return result;
+}
+
+/**
+ * Replace every `{slot}` in `nodes`, at any depth, with its fill or else its
+ * default content. Unchanged lists and tags are returned as they are.
+ */
+function fillSlots(
+    nodes: readonly TemplateNode[],
+    fills: Fills,
+    state: LayoutState,
+    declared: Set<string>,
+): readonly TemplateNode[] {
+    let out: TemplateNode[] | undefined;
+    nodes.forEach((node, i) => {
+        let replacement: readonly TemplateNode[] | TemplateNode = node;
+        if (node.kind === NodeKind.Tag) {
+            replacement =
+                node.name === SLOT_TAG
+                    ? slotContent(node, fills, state, declared)
+                    : fillTag(node, fills, state, declared);
+        }
+        if (replacement === node && !out) return;
+        out ??= nodes.slice(0, i);
+        if (Array.isArray(replacement)) {
+            out.push(...(replacement as readonly TemplateNode[]));
+        } else {
+            out.push(replacement as TemplateNode);
+        }
+    });
+    return out ?? nodes;
+}
+
+/** What `{slot}` tag `node` becomes: its fill, or its filled default. */
+function slotContent(
+    node: TagNode,
+    fills: Fills,
+    state: LayoutState,
+    declared: Set<string>,
+): readonly TemplateNode[] {
+    const name = slotName(node, state);
+    if (name === undefined) {
+        return fillSlots(node.args[1]?.nodes ?? [], fills, state, declared);
+    }
+    declared.add(name);
+    return (
+        fills.get(name) ??
+        fillSlots(node.args[1]?.nodes ?? [], fills, state, declared)
+    );
+}
+
+function fillTag(
+    node: TagNode,
+    fills: Fills,
+    state: LayoutState,
+    declared: Set<string>,
+): TagNode {
+    const visitArg = (arg: ArgumentNode): ArgumentNode => {
+        const inner = fillSlots(arg.nodes, fills, state, declared);
+        return inner === arg.nodes ? arg : { ...arg, nodes: inner };
+    };
+    const args = node.args.map(visitArg);
+    let named = node.named;
+    if (named) {
+        const entries = Object.entries(named);
+        const mapped = entries.map(([k, a]) => [k, visitArg(a)] as const);
+        if (mapped.some(([, a], i) => a !== entries[i]?.[1])) {
+            named = Object.assign(
+                Object.create(null),
+                Object.fromEntries(mapped),
+            );
+        }
+    }
+    if (named === node.named && args.every((a, i) => a === node.args[i])) {
+        return node;
+    }
+    return { ...node, args, ...(named && { named }) };
+}
+
+/**
+ * Layout `name`, parsed with the child's options. Diagnostics
+ * from the layout's source are reported once, at the `{extends}` tag.
+ */
+function loadLayout(
+    name: string,
+    node: TagNode,
+    state: LayoutState,
+): CompiledTemplate | undefined {
+    const cached = state.parsed.get(name);
+    if (cached) return cached;
+    if (!Object.hasOwn(state.layouts, name)) return undefined;
+    const source = state.layouts[name] as string;
+    const { template, diagnostics } = parse(source, {
+        ...state.options,
+        strict: false,
+    });
+    for (const d of diagnostics) {
+        const { line, column } = d.span.start;
+        state.diagnostics.push({
+            ...d,
+            message: `In layout '${name}' at line ${line}, column ${column}: ${d.message}`,
+            span: node.span,
+        });
+    }
+    state.parsed.set(name, template);
+    return template;
+}
+
+function slotName(node: TagNode, state: LayoutState): string | undefined {
+    const name = literalText(node.args[0]);
+    if (name === undefined) {
+        state.diagnostics.push({
+            severity: "error",
+            message: "Slot name must be literal text",
+            span: node.span,
+        });
+    }
+    return name;
+}
+
+/** The trimmed text of an all-text argument; undefined otherwise. */
+export function literalText(arg: ArgumentNode | undefined): string | undefined {
+    if (!arg?.nodes.every((n) => n.kind === NodeKind.Text)) {
+        return undefined;
+    }
+    const text = arg.nodes.map((n) => (n as { value: string }).value).join("");
+    return text.trim() || undefined;
+}
+
+function isTag(node: TemplateNode, name: string): node is TagNode {
+    return node.kind === NodeKind.Tag && node.name === name;
+}
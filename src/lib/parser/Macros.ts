@@ -0,0 +1,227 @@
+import type {
+    ArgumentNode,
+    MacroDefinition,
+    ParseDiagnostic,
+    TagNode,
+    TemplateNode,
+} from "../../types.js";
+import { NodeKind } from "../../types.js";
+import { INCLUDE_TAG } from "../compiler/Partials.js";
+import { EXTENDS_TAG, literalText, SLOT_TAG } from "./Layout.js";
+
+/** The tag that defines a macro. */
+export const DEFINE_TAG = "define";
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+const RESERVED = new Set([DEFINE_TAG, INCLUDE_TAG, EXTENDS_TAG, SLOT_TAG]);
+
+/**
+ * Take the top-level `{define:name|param|...|body}` tags out of `nodes` and
+ * return them as macros by name. The first definition of a name wins.
+ * Definitions nested in other tags, and macros that call themselves directly
+ * or through others, are reported.
+ *
+ * A variable named after a macro, such as `{hello}`, becomes a call without
+ * arguments, except where a parameter of the macro around it has that name.
+ */
+export function collectMacros(
+    nodes: readonly TemplateNode[],
+    diagnostics: ParseDiagnostic[],
+): {
+    nodes: readonly TemplateNode[];
+    macros: Map<string, MacroDefinition>;
+} {
+    const macros = new Map<string, MacroDefinition>();
+    const rest: TemplateNode[] = [];
+    for (const node of nodes) {
+        if (node.kind !== NodeKind.Tag || node.name !== DEFINE_TAG) {
+            rest.push(node);
+            reportNested(node, diagnostics);
+            continue;
+        }
+        const macro = defineMacro(node, diagnostics);
+        if (!macro) continue;
+        if (macros.has(macro.name)) {
+            diagnostics.push({
+                severity: "error",
+                message: `Macro '${macro.name}' is already defined`,
+                span: node.span,
+                hint: "The first definition is used.",
+            });
+            continue;
+        }
+        macros.set(macro.name, macro);
+    }
+    if (macros.size === 0) return { nodes, macros };
+    for (const macro of macros.values()) {
+        const body = resolveCalls(macro.body, macros, macro.params);
+        if (body !== macro.body) macros.set(macro.name, { ...macro, body });
+    }
+    reportRecursion(macros, diagnostics);
+    return { nodes: resolveCalls(rest, macros, []), macros };
+}
+
+/**
+ * `nodes` with every variable named after one of `macros`, other than the
+ * `params` in scope, turned into a tag calling it. Untouched lists are
+ * returned as they are.
+ */
+function resolveCalls(
+    nodes: readonly TemplateNode[],
+    macros: ReadonlyMap<string, MacroDefinition>,
+    params: readonly string[],
+): readonly TemplateNode[] {
+    let out: TemplateNode[] | undefined;
+    nodes.forEach((node, i) => {
+        const next = resolveCall(node, macros, params);
+        if (next === node && !out) return;
+        out ??= nodes.slice(0, i);
+        out.push(next);
+    });
+    return out ?? nodes;
+}
+
+function resolveCall(
+    node: TemplateNode,
+    macros: ReadonlyMap<string, MacroDefinition>,
+    params: readonly string[],
+): TemplateNode {
+    if (node.kind === NodeKind.Variable) {
+        if (!macros.has(node.name) || params.includes(node.name)) return node;
+        return {
+            kind: NodeKind.Tag,
+            name: node.name,
+            args: [],
+            span: node.span,
+        };
+    }
+    if (node.kind !== NodeKind.Tag) return node;
+    const visitArg = (arg: ArgumentNode): ArgumentNode => {
+        const inner = resolveCalls(arg.nodes, macros, params);
+        return inner === arg.nodes ? arg : { ...arg, nodes: inner };
+    };
+    const args = node.args.map(visitArg);
+    let named = node.named;
+    if (named) {
+        const entries = Object.entries(named);
+        const mapped = entries.map(([k, a]) => [k, visitArg(a)] as const);
+        if (mapped.some(([, a], i) => a !== entries[i]?.[1])) {
+            named = Object.assign(
+                Object.create(null),
+                Object.fromEntries(mapped),
+            );
+        }
+    }
+    if (named === node.named && args.every((a, i) => a === node.args[i])) {
+        return node;
+    }
+    return { ...node, args, ...(named && { named }) };
+}
+
+function defineMacro(
+    node: TagNode,
+    diagnostics: ParseDiagnostic[],
+): MacroDefinition | undefined {
+    const error = (message: string, hint?: string) => {
+        diagnostics.push({
+            severity: "error",
+            message,
+            span: node.span,
+            ...(hint && { hint }),
+        });
+        return undefined;
+    };
+    const body = node.args.at(-1);
+    if (node.args.length < 2 || !body) {
+        return error(
+            "A macro needs a name and a body",
+            "Write {define:name|param|...|body}.",
+        );
+    }
+    const name = literalText(node.args[0]);
+    if (name === undefined || !IDENTIFIER.test(name)) {
+        return error("Macro name must be an identifier");
+    }
+    if (RESERVED.has(name)) return error(`'${name}' cannot be a macro name`);
+    const params: string[] = [];
+    for (const arg of node.args.slice(1, -1)) {
+        const param = literalText(arg);
+        if (param === undefined || !IDENTIFIER.test(param)) {
+            return error(`Parameters of macro '${name}' must be identifiers`);
+        }
+        if (params.includes(param)) {
+            return error(`Macro '${name}' repeats parameter '${param}'`);
+        }
+        params.push(param);
+    }
+    for (const inner of body.nodes) reportNested(inner, diagnostics);
+    return { name, params, body: body.nodes, span: node.span };
+}
+
+/** Report `{define}` tags anywhere inside `node`. */
+function reportNested(node: TemplateNode, diagnostics: ParseDiagnostic[]) {
+    if (node.kind !== NodeKind.Tag) return;
+    for (const arg of tagArgs(node)) {
+        for (const inner of arg.nodes) {
+            if (inner.kind === NodeKind.Tag && inner.name === DEFINE_TAG) {
+                diagnostics.push({
+                    severity: "error",
+                    message: "{define} must be at the top level of a template",
+                    span: inner.span,
+                });
+            }
+            reportNested(inner, diagnostics);
+        }
+    }
+}
+
+/** Report each cycle of macros calling macros once, at its first macro. */
+function reportRecursion(
+    macros: ReadonlyMap<string, MacroDefinition>,
+    diagnostics: ParseDiagnostic[],
+) {
+    const done = new Set<string>();
+    const visit = (name: string, path: readonly string[]) => {
+        const start = path.indexOf(name);
+        if (start !== -1) {
+            const cycle = [...path.slice(start), name];
+            const first = macros.get(name) as MacroDefinition;
+            diagnostics.push({
+                severity: "error",
+                message: `Macro '${name}' calls itself: ${cycle.join(" → ")}`,
+                span: first.span,
+            });
+            return;
+        }
+        if (done.has(name)) return;
+        done.add(name);
+        const macro = macros.get(name) as MacroDefinition;
+        for (const callee of calledTags(macro.body)) {
+            if (macros.has(callee)) visit(callee, [...path, name]);
+        }
+    };
+    for (const name of macros.keys()) visit(name, []);
+}
+
+/**
+ * Names of the tags used anywhere in `nodes`, in order of appearance. Calls
+ * written as variables are tags by now (see resolveCalls()).
+ */
+function calledTags(nodes: readonly TemplateNode[]): Set<string> {
+    const names = new Set<string>();
+    const scan = (list: readonly TemplateNode[]) => {
+        for (const node of list) {
+            if (node.kind !== NodeKind.Tag) continue;
+            names.add(node.name);
+            for (const arg of tagArgs(node)) scan(arg.nodes);
+        }
+    };
+    scan(nodes);
+    return names;
+}
+
+function tagArgs(node: TagNode): readonly ArgumentNode[] {
+    return node.named
+        ? [...node.args, ...Object.values(node.named)]
+        : node.args;
+}
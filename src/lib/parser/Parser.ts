@@ -1,9 +1,11 @@
 import type {
     ArgumentNode,
     CompiledTemplate,
+    MacroDefinition,
     ParseDiagnostic,
     ParseResult,
     ParserOptions,
+    Position,
     Span,
     TagNode,
     TemplateNode,
@@ -14,8 +16,23 @@ import type {
 import { NodeKind, TokenKind } from "../../types.js";
 import { AggregateParseError, MaxDepthError } from "../errors/Errors.js";
 import { Lexer } from "../lexer/Lexer.js";
+import { buildCst } from "./Cst.js";
+import { parseExpression } from "./Expression.js";
+import { resolveLayouts } from "./Layout.js";
+import { collectMacros } from "./Macros.js";
 
 const DEFAULT_MAX_DEPTH = 32;
+
+/**
+ * `key=` at the very start of an argument. It must sit in one unescaped,
+ * unquoted text run, so `key\=value` (the lexer splits escapes into their own
+ * token) and `"key=value"` stay positional.
+ */
+const NAMED_ARG = /^([A-Za-z_]\w*)=/;
+/** `#name` opening a block, and the header text after it. */
+const BLOCK_OPEN = /^#([^\s#]+)\s*/;
+const BLOCK_CLOSE = /^\/(\S+)$/;
+
 const EMPTY_SPAN: Span = {
     start: { line: 1, column: 1, offset: 0 },
     end: { line: 1, column: 1, offset: 0 },
@@ -32,25 +49,77 @@ const EMPTY_SPAN: Span = {
  *   - Empty {} becomes empty text in non-strict mode.
  *   - Variable names are NOT trimmed; whitespace inside { ... } is preserved
  *     as part of the name. (This is a deliberate departure from v1's silent trim.)
+ *   - An argument starting with `key=` is named: it goes to TagNode.named
+ *     instead of args. Escape the `=` (`key\=value`) to keep it positional.
+ *   - `{# ... #}` comments are dropped before parsing, so text around them
+ *     merges; `keepComments` keeps them as CommentNodes instead.
+ *   - `{- ` and ` -}` trim the whitespace before and after a tag, and
+ *     `trimBlocks` removes lines holding only a block marker. Trimmed text
+ *     keeps spans into the original source.
+ *   - `{value >> f:arg >> g}` is a filter chain, desugared to
+ *     `{g:{f:{value}|arg}}`. It applies when the name part contains the
+ *     operator (`filterOperator`, off by default); an escaped or quoted
+ *     operator is text.
+ *   - The first argument of an expression tag (`expressionTags`, none by
+ *     default) becomes an ExpressionNode when it is plain text with an
+ *     operator in it, such as `{if:level >= 10 && premium|...}`.
+ *   - `cst` also returns the lossless syntax tree, which print() turns back
+ *     into `input` exactly.
  */
 export function parse(input: string, options: ParserOptions = {}): ParseResult {
     const strict = options.strict ?? false;
     const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
     const lexer = new Lexer(input, options);
-    const tokens = [...lexer];
-
     const diagnostics: ParseDiagnostic[] = [];
+    const filterOperator = options.filterOperator ?? false;
+    if (filterOperator === "")
+        throw new Error("filterOperator cannot be empty");
+    if (filterOperator && /[:|]/.test(filterOperator))
+        throw new Error("filterOperator cannot contain ':' or '|'");
+    const tokens = splitFilters(
+        trimWhitespace(
+            prepareComments(
+                [...lexer],
+                lexer,
+                diagnostics,
+                options.keepComments ?? false,
+            ),
+            input,
+            options.trimBlocks ?? false,
+        ),
+        filterOperator,
+    );
+
     const cursor = { i: 0 };
 
-    const nodes = parseNodes(
-        tokens,
-        cursor,
+    const parsed = parseExpressions(
+        parseNodes(
+            tokens,
+            cursor,
+            diagnostics,
+            0,
+            maxDepth,
+            /* inTag */ false,
+            lexer,
+        ),
+        input,
+        new Set(options.expressionTags ?? []),
         diagnostics,
-        0,
-        maxDepth,
-        /* inTag */ false,
-        lexer,
     );
+    const collected = options.macros
+        ? collectMacros(parsed, diagnostics)
+        : { nodes: parsed, macros: new Map<string, MacroDefinition>() };
+    const { macros } = collected;
+    const { layouts, ...layoutOptions } = options;
+    const nodes = layouts
+        ? resolveLayouts(
+              collected.nodes,
+              layouts,
+              layoutOptions,
+              diagnostics,
+              macros,
+          )
+        : collected.nodes;
 
     if (strict) {
         const errors = diagnostics.filter((d) => d.severity === "error");
@@ -59,8 +128,20 @@ export function parse(input: string, options: ParserOptions = {}): ParseResult {
         }
     }
 
-    const template: CompiledTemplate = { nodes, source: input };
-    return { template, diagnostics };
+    const template: CompiledTemplate =
+        macros.size > 0
+            ? {
+                  nodes,
+                  source: input,
+                  macros: Object.assign(
+                      Object.create(null),
+                      Object.fromEntries(macros),
+                  ),
+              }
+            : { nodes, source: input };
+    return options.cst
+        ? { template, diagnostics, cst: buildCst(input, options) }
+        : { template, diagnostics };
 }
 
 function parseNodes(
@@ -71,6 +152,7 @@ function parseNodes(
     maxDepth: number,
     inTag: boolean,
     lexer: Lexer,
+    block?: string,
 ): TemplateNode[] {
     if (depth > maxDepth) {
         const tok = tokens[cursor.i] ?? tokens.at(-1);
@@ -91,12 +173,50 @@ function parseNodes(
         // Inside a tag, these are terminators handled by the caller.
         if (
             inTag &&
-            (tok.kind === TokenKind.Pipe || tok.kind === TokenKind.TagEnd)
+            (tok.kind === TokenKind.Pipe ||
+                tok.kind === TokenKind.TagEnd ||
+                tok.kind === TokenKind.Filter)
         ) {
             break;
         }
 
         if (tok.kind === TokenKind.TagStart) {
+            const marker = readBlockMarker(tokens, cursor.i);
+            if (marker?.kind === "open") {
+                out.push(
+                    parseBlock(
+                        tokens,
+                        cursor,
+                        diagnostics,
+                        depth,
+                        maxDepth,
+                        lexer,
+                        marker.name,
+                    ),
+                );
+                continue;
+            }
+            if (marker) {
+                // The enclosing parseBlock() consumes it.
+                if (block !== undefined) break;
+                const text = lexer.tagStart + marker.source + lexer.tagEnd;
+                diagnostics.push({
+                    severity: "error",
+                    message: `Unexpected '${text}' outside a block`,
+                    span: {
+                        start: tok.span.start,
+                        end: marker.end.span.end,
+                    },
+                    hint:
+                        marker.kind === "else"
+                            ? `Open a block first, e.g. '${lexer.tagStart}#if ...${lexer.tagEnd}'.`
+                            : `Remove it, or open the block with '${lexer.tagStart}#${marker.name} ...${lexer.tagEnd}'.`,
+                });
+                cursor.i++;
+                const recovered = recoverTagAsText(tok, tokens, cursor);
+                pushText(out, recovered.value, recovered.span);
+                continue;
+            }
             const tagNode = parseTag(
                 tokens,
                 cursor,
@@ -122,6 +242,19 @@ function parseNodes(
             continue;
         }
 
+        if (tok.kind === TokenKind.Comment) {
+            out.push({
+                kind: NodeKind.Comment,
+                value: tok.value.slice(
+                    lexer.tagStart.length + 1,
+                    -(lexer.tagEnd.length + 1),
+                ),
+                span: tok.span,
+            });
+            cursor.i++;
+            continue;
+        }
+
         // Stray Colon, Pipe, or TagEnd outside a tag — emit as text.
         // (Lexer only emits Colon/Pipe inside tags; TagEnd outside is impossible
         // because the lexer tracks tag depth. Belt-and-braces.)
@@ -151,9 +284,11 @@ function parseTag(
     const startTok = tokens[cursor.i];
     if (!startTok) return null;
     cursor.i++; // consume TagStart
+    const from = cursor.i;
 
     // Collect the "name" portion: text tokens up until the first Colon or TagEnd.
     let name = "";
+    let nameStart: Span | null = null;
     let nameEnd: Span | null = null;
     let sawColon = false;
     let sawEnd = false;
@@ -162,6 +297,27 @@ function parseTag(
         const t = tokens[cursor.i];
         if (!t) break;
         if (t.kind === TokenKind.EOF) break;
+        if (t.kind === TokenKind.Filter) {
+            const head: VariableNode | null =
+                name.length > 0 && nameStart && nameEnd
+                    ? {
+                          kind: NodeKind.Variable,
+                          name,
+                          span: { start: nameStart.start, end: nameEnd.end },
+                      }
+                    : null;
+            return parseChain(
+                tokens,
+                cursor,
+                diagnostics,
+                depth,
+                maxDepth,
+                lexer,
+                startTok,
+                from,
+                head,
+            );
+        }
         if (t.kind === TokenKind.TagEnd) {
             sawEnd = true;
             break;
@@ -192,8 +348,14 @@ function parseTag(
             });
             return recoverTagAsText(startTok, tokens, cursor);
         }
+        // A kept comment does not belong to the name.
+        if (t.kind === TokenKind.Comment) {
+            cursor.i++;
+            continue;
+        }
         // Text token — accumulate.
         name += t.value;
+        nameStart ??= t.span;
         nameEnd = t.span;
         cursor.i++;
     }
@@ -210,7 +372,7 @@ function parseTag(
         const lastSpan = nameEnd ?? startTok.span;
         return {
             kind: NodeKind.Text,
-            value: lexer.tagStart + name,
+            value: startTok.value + name,
             span: { start: startTok.span.start, end: lastSpan.end },
         };
     }
@@ -241,6 +403,22 @@ function parseTag(
             };
         }
 
+        if (name === lexer.rawTag) {
+            // The lexer only leaves `{raw}` as a tag when it is never closed.
+            const span = { start: startTok.span.start, end: endTok.span.end };
+            diagnostics.push({
+                severity: "error",
+                message: "Unclosed raw block",
+                span,
+                hint: `Expected '${lexer.tagStart}/${name}${lexer.tagEnd}' to end the verbatim region.`,
+            });
+            return {
+                kind: NodeKind.Text,
+                value: startTok.value + name + endTok.value,
+                span,
+            };
+        }
+
         return {
             kind: NodeKind.Variable,
             name,
@@ -264,16 +442,75 @@ function parseTag(
         return recoverTagAsText(startTok, tokens, cursor);
     }
 
+    const { args, named, end } = parseArgs(
+        tokens,
+        cursor,
+        diagnostics,
+        depth,
+        maxDepth,
+        lexer,
+        startTok,
+        name,
+        undefined,
+    );
+    return {
+        kind: NodeKind.Tag,
+        name,
+        args,
+        ...(named && { named }),
+        span: { start: startTok.span.start, end: end ?? colonTok.span.end },
+    };
+}
+
+interface ParsedArgs {
+    args: ArgumentNode[];
+    named: Record<string, ArgumentNode> | undefined;
+    /** End of the closing delimiter, or of the last argument if unclosed. */
+    end: Position | undefined;
+    closed: boolean;
+}
+
+/**
+ * Parse pipe-separated arguments up to and including the closing delimiter.
+ * `lead` is text already split off a token (a block header) that starts the
+ * first argument.
+ */
+function parseArgs(
+    tokens: readonly Token[],
+    cursor: { i: number },
+    diagnostics: ParseDiagnostic[],
+    depth: number,
+    maxDepth: number,
+    lexer: Lexer,
+    startTok: Token,
+    name: string,
+    lead: Token | undefined,
+): ParsedArgs {
     const args: ArgumentNode[] = [];
-    let closed = false;
-    let endTokSpan: Span = colonTok.span;
+    let named: Record<string, ArgumentNode> | undefined;
 
     // Parse one argument at a time, each terminated by Pipe or TagEnd.
     while (cursor.i < tokens.length) {
-        const argToken = tokens[cursor.i];
+        const argToken = lead ?? tokens[cursor.i];
         if (!argToken) break;
+        const fromLead = lead !== undefined;
+        lead = undefined;
         const argStart = argToken.span;
-        const argNodes = parseNodes(
+        const key =
+            argToken.kind === TokenKind.Text && !argToken.quoted
+                ? NAMED_ARG.exec(argToken.value)?.[1]
+                : undefined;
+        const argNodes: TemplateNode[] = [];
+        if (key !== undefined || fromLead) {
+            // Drop `key=` from the first token; the rest of it starts the value.
+            const skip = key === undefined ? 0 : key.length + 1;
+            pushText(argNodes, argToken.value.slice(skip), {
+                start: advance(argStart.start, skip),
+                end: argStart.end,
+            });
+            if (!fromLead) cursor.i++;
+        }
+        const more = parseNodes(
             tokens,
             cursor,
             diagnostics,
@@ -282,6 +519,26 @@ function parseTag(
             /* inTag */ true,
             lexer,
         );
+        for (const n of more) {
+            if (n.kind === NodeKind.Text) pushText(argNodes, n.value, n.span);
+            else argNodes.push(n);
+        }
+        const addArg = (arg: ArgumentNode): void => {
+            if (key === undefined) {
+                args.push(arg);
+                return;
+            }
+            named ??= Object.create(null) as Record<string, ArgumentNode>;
+            if (key in named) {
+                diagnostics.push({
+                    severity: "warning",
+                    message: `Duplicate named argument '${key}'`,
+                    span: arg.span,
+                    hint: "The last value wins.",
+                });
+            }
+            named[key] = arg;
+        };
 
         const next = tokens[cursor.i];
         if (!next || next.kind === TokenKind.EOF) {
@@ -296,21 +553,16 @@ function parseTag(
                 argNodes.length > 0
                     ? (argNodes[argNodes.length - 1]?.span.end ?? argStart.end)
                     : argStart.end;
-            args.push({
+            addArg({
                 kind: NodeKind.Argument,
                 nodes: argNodes,
                 span: { start: argStart.start, end: argEnd },
             });
-            return {
-                kind: NodeKind.Tag,
-                name,
-                args,
-                span: { start: startTok.span.start, end: argEnd },
-            };
+            return { args, named, end: argEnd, closed: false };
         }
 
         const argEnd = next.span.start;
-        args.push({
+        addArg({
             kind: NodeKind.Argument,
             nodes: argNodes,
             span: { start: argStart.start, end: argEnd },
@@ -318,31 +570,651 @@ function parseTag(
 
         if (next.kind === TokenKind.TagEnd) {
             cursor.i++; // consume TagEnd
-            closed = true;
-            endTokSpan = next.span;
-            break;
+            return { args, named, end: next.span.end, closed: true };
         }
         if (next.kind === TokenKind.Pipe) {
             cursor.i++; // consume Pipe and continue parsing next arg
             continue;
         }
-        // Shouldn't reach: parseNodes only stops on Pipe/TagEnd/EOF.
+        if (next.kind === TokenKind.Filter) {
+            // The next filter in a chain; parseChain() takes it from here.
+            return { args, named, end: argEnd, closed: true };
+        }
+        // Shouldn't reach: parseNodes only stops on Pipe/TagEnd/Filter/EOF.
         break;
     }
 
-    if (!closed) {
+    diagnostics.push({
+        severity: "error",
+        message: "Unclosed tag",
+        span: startTok.span,
+    });
+    return { args, named, end: undefined, closed: false };
+}
+
+/**
+ * Parse the rest of a filter chain, from its first Filter token, into nested
+ * TagNodes: each filter becomes a tag whose first argument is everything to
+ * its left. Every tag's span starts at the chain's opening delimiter.
+ */
+function parseChain(
+    tokens: readonly Token[],
+    cursor: { i: number },
+    diagnostics: ParseDiagnostic[],
+    depth: number,
+    maxDepth: number,
+    lexer: Lexer,
+    startTok: Token,
+    from: number,
+    head: VariableNode | null,
+): TagNode | VariableNode | TextNode {
+    const opTok = tokens[cursor.i] as Token;
+    const op = opTok.value.trim();
+    if (!head) {
         diagnostics.push({
             severity: "error",
-            message: "Unclosed tag",
-            span: startTok.span,
+            message: `Filter chain needs a value before '${op}'`,
+            span: opTok.span,
+            hint: `Write '${lexer.tagStart}name ${op} filter${lexer.tagEnd}'.`,
         });
+        cursor.i = from;
+        return recoverTagAsText(startTok, tokens, cursor);
     }
 
-    return {
+    let node: TagNode | VariableNode = head;
+    for (;;) {
+        const opSpan = (tokens[cursor.i] as Token).span;
+        cursor.i++; // consume the operator
+
+        let name = "";
+        let t = tokens[cursor.i];
+        while (t?.kind === TokenKind.Text || t?.kind === TokenKind.Comment) {
+            if (t.kind === TokenKind.Text) name += t.value;
+            cursor.i++;
+            t = tokens[cursor.i];
+        }
+        name = name.trim();
+        if (name.length === 0) {
+            diagnostics.push({
+                severity: "error",
+                message: `Missing filter name after '${op}'`,
+                span: opSpan,
+            });
+        }
+
+        let args: ArgumentNode[] = [];
+        let named: Record<string, ArgumentNode> | undefined;
+        let end = tokens[cursor.i - 1]?.span.end ?? opSpan.end;
+        if (t?.kind === TokenKind.Colon) {
+            cursor.i++;
+            const parsed = parseArgs(
+                tokens,
+                cursor,
+                diagnostics,
+                depth,
+                maxDepth,
+                lexer,
+                startTok,
+                name,
+                undefined,
+            );
+            ({ args, named } = parsed);
+            end = parsed.end ?? t.span.end;
+            // Unless it stopped at the next filter, parseArgs consumed the
+            // closing delimiter; step back onto it.
+            if (parsed.closed && tokens[cursor.i]?.kind !== TokenKind.Filter) {
+                cursor.i--;
+            }
+        }
+        if (name.length > 0) {
+            node = {
+                kind: NodeKind.Tag,
+                name,
+                args: [
+                    { kind: NodeKind.Argument, nodes: [node], span: node.span },
+                    ...args,
+                ],
+                ...(named && { named }),
+                span: { start: startTok.span.start, end },
+            };
+        }
+
+        const next = tokens[cursor.i];
+        if (next?.kind === TokenKind.Filter) continue;
+        if (next?.kind === TokenKind.TagEnd) {
+            cursor.i++;
+            return {
+                ...node,
+                span: { start: startTok.span.start, end: next.span.end },
+            };
+        }
+        if (next && next.kind !== TokenKind.EOF) {
+            diagnostics.push({
+                severity: "error",
+                message: `Unexpected '${next.value}' in filter chain`,
+                span: next.span,
+                hint: `Filter arguments start with ':'.`,
+            });
+            cursor.i = from;
+            return recoverTagAsText(startTok, tokens, cursor);
+        }
+        if (tokens[cursor.i - 1]?.kind !== TokenKind.TagEnd) {
+            diagnostics.push({
+                severity: "error",
+                message: "Unclosed tag",
+                span: startTok.span,
+                hint: `Expected '${lexer.tagEnd}' to close the filter chain.`,
+            });
+        }
+        return node;
+    }
+}
+
+/**
+ * Cut the filter operator out of the Text tokens of every chain tag (a tag
+ * whose name part contains it) into Filter tokens. A Filter token's value and
+ * span include the whitespace around the operator, as trim markers do. Only
+ * text directly inside the chain tag is split; escaped and quoted text never
+ * is.
+ */
+function splitFilters(tokens: Token[], op: string | false): Token[] {
+    if (
+        op === false ||
+        !tokens.some(
+            (t) =>
+                t.kind === TokenKind.Text && !t.quoted && t.value.includes(op),
+        )
+    ) {
+        return tokens;
+    }
+    const out: Token[] = [];
+    const chain: boolean[] = []; // per open tag: is it a chain?
+    for (let i = 0; i < tokens.length; i++) {
+        const t = tokens[i] as Token;
+        if (t.kind === TokenKind.TagStart) chain.push(isChain(tokens, i, op));
+        else if (t.kind === TokenKind.TagEnd) chain.pop();
+        if (
+            !chain.at(-1) ||
+            t.kind !== TokenKind.Text ||
+            t.quoted ||
+            !t.value.includes(op)
+        ) {
+            out.push(t);
+            continue;
+        }
+        // Run tokens are unescaped, so positions follow the value exactly.
+        // Each Filter token takes the whitespace around its operator.
+        const parts = t.value.split(op);
+        let pos = t.span.start;
+        let pending = ""; // operator and whitespace not yet emitted
+        let pendingStart = pos;
+        parts.forEach((part, j) => {
+            const last = j === parts.length - 1;
+            const lead = j > 0 ? part.length - part.trimStart().length : 0;
+            const value = last ? part.slice(lead) : part.slice(lead).trimEnd();
+            const textStart = positionAfter(pos, part.slice(0, lead));
+            if (j > 0) {
+                out.push({
+                    kind: TokenKind.Filter,
+                    value: pending + part.slice(0, lead),
+                    span: { start: pendingStart, end: textStart },
+                });
+            }
+            const textEnd = positionAfter(textStart, value);
+            if (value.length > 0) {
+                out.push({
+                    kind: TokenKind.Text,
+                    value,
+                    span: { start: textStart, end: textEnd },
+                });
+            }
+            if (!last) {
+                pending = part.slice(lead + value.length) + op;
+                pendingStart = textEnd;
+                pos = positionAfter(textEnd, pending);
+            }
+        });
+    }
+    return out;
+}
+
+/** Whether the tag at `i` has the filter operator in its name part. */
+function isChain(tokens: readonly Token[], i: number, op: string): boolean {
+    const first = tokens[i + 1];
+    // Block markers are never chains.
+    if (first?.kind === TokenKind.Text && /^[#/]/.test(first.value)) {
+        return false;
+    }
+    for (let k = i + 1; k < tokens.length; k++) {
+        const t = tokens[k] as Token;
+        if (t.kind !== TokenKind.Text) return false;
+        if (!t.quoted && t.value.includes(op)) return true;
+    }
+    return false;
+}
+
+/** The position after `text`, starting at `pos`. */
+function positionAfter(pos: Position, text: string): Position {
+    let { line, column, offset } = pos;
+    for (const ch of text) {
+        offset++;
+        if (ch === "\n") {
+            line++;
+            column = 1;
+        } else {
+            column++;
+        }
+    }
+    return { line, column, offset };
+}
+
+type BlockMarker =
+    | { kind: "open"; name: string }
+    | { kind: "else" | "close"; name: string; source: string; end: Token };
+
+/**
+ * Classify the tag starting at `i` as a block marker: `{#name ...}` opens a
+ * block, `{:else}` separates its sections and `{/name}` closes it. Returns
+ * undefined for ordinary tags.
+ */
+function readBlockMarker(
+    tokens: readonly Token[],
+    i: number,
+): BlockMarker | undefined {
+    const first = tokens[i + 1];
+    if (!first) return undefined;
+    if (first.kind === TokenKind.Text && !first.quoted) {
+        const open = BLOCK_OPEN.exec(first.value);
+        if (open?.[1] !== undefined) return { kind: "open", name: open[1] };
+        const end = tokens[i + 2];
+        const close = BLOCK_CLOSE.exec(first.value);
+        if (close?.[1] !== undefined && end?.kind === TokenKind.TagEnd) {
+            return { kind: "close", name: close[1], source: first.value, end };
+        }
+        return undefined;
+    }
+    if (first.kind === TokenKind.Colon) {
+        const word = tokens[i + 2];
+        const end = tokens[i + 3];
+        if (
+            word?.kind === TokenKind.Text &&
+            word.value === "else" &&
+            end?.kind === TokenKind.TagEnd
+        ) {
+            return { kind: "else", name: "else", source: ":else", end };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse `{#name header}body{:else}body{/name}` into the TagNode the inline
+ * form `{name:header|body|body}` would produce: header arguments first (split
+ * on `|`, `key=value` allowed), then one argument per body section.
+ */
+function parseBlock(
+    tokens: readonly Token[],
+    cursor: { i: number },
+    diagnostics: ParseDiagnostic[],
+    depth: number,
+    maxDepth: number,
+    lexer: Lexer,
+    name: string,
+): TagNode {
+    const startTok = tokens[cursor.i] as Token;
+    const headTok = tokens[cursor.i + 1] as Token;
+    cursor.i += 2; // consume TagStart and `#name`
+
+    const skip = (BLOCK_OPEN.exec(headTok.value)?.[0] ?? "").length;
+    const rest = headTok.value.slice(skip);
+    let header: ParsedArgs;
+    const after = tokens[cursor.i];
+    if (rest.length === 0 && after?.kind === TokenKind.TagEnd) {
+        cursor.i++;
+        header = {
+            args: [],
+            named: undefined,
+            end: after.span.end,
+            closed: true,
+        };
+    } else {
+        if (rest.length === 0 && after?.kind === TokenKind.Colon) cursor.i++;
+        header = parseArgs(
+            tokens,
+            cursor,
+            diagnostics,
+            depth,
+            maxDepth,
+            lexer,
+            startTok,
+            `#${name}`,
+            rest.length > 0
+                ? {
+                      kind: TokenKind.Text,
+                      value: rest,
+                      span: {
+                          start: advance(headTok.span.start, skip),
+                          end: headTok.span.end,
+                      },
+                  }
+                : undefined,
+        );
+    }
+    const openEnd = header.end ?? headTok.span.end;
+    const args = header.args;
+    const build = (end: Position): TagNode => ({
         kind: NodeKind.Tag,
         name,
         args,
-        span: { start: startTok.span.start, end: endTokSpan.end },
+        ...(header.named && { named: header.named }),
+        span: { start: startTok.span.start, end },
+    });
+    // An unclosed header already has its diagnostic; there is no body.
+    if (!header.closed) return build(openEnd);
+
+    let sectionStart = openEnd;
+    for (;;) {
+        const nodes = parseNodes(
+            tokens,
+            cursor,
+            diagnostics,
+            depth + 1,
+            maxDepth,
+            /* inTag */ false,
+            lexer,
+            name,
+        );
+        const tok = tokens[cursor.i];
+        const marker = tok && readBlockMarker(tokens, cursor.i);
+        if (!tok || !marker || marker.kind === "open") {
+            const end = nodes.at(-1)?.span.end ?? sectionStart;
+            args.push({
+                kind: NodeKind.Argument,
+                nodes,
+                span: { start: sectionStart, end },
+            });
+            diagnostics.push({
+                severity: "error",
+                message: `Unclosed block '#${name}'`,
+                span: { start: startTok.span.start, end: openEnd },
+                hint: `Expected '${lexer.tagStart}/${name}${lexer.tagEnd}' to close the block.`,
+            });
+            return build(end);
+        }
+
+        args.push({
+            kind: NodeKind.Argument,
+            nodes,
+            span: { start: sectionStart, end: tok.span.start },
+        });
+        cursor.i = tokens.indexOf(marker.end, cursor.i) + 1;
+        if (marker.kind === "else") {
+            sectionStart = marker.end.span.end;
+            continue;
+        }
+        if (marker.name !== name) {
+            diagnostics.push({
+                severity: "error",
+                message: `Mismatched block end '${lexer.tagStart}/${marker.name}${lexer.tagEnd}'`,
+                span: { start: tok.span.start, end: marker.end.span.end },
+                hint: `Expected '${lexer.tagStart}/${name}${lexer.tagEnd}' to close the block opened at line ${startTok.span.start.line}.`,
+            });
+        }
+        return build(marker.end.span.end);
+    }
+}
+
+/**
+ * Drop comment tokens, or keep them for CommentNodes. An unterminated comment
+ * is reported at its opening marker and kept as text, like an unclosed tag.
+ */
+function prepareComments(
+    tokens: Token[],
+    lexer: Lexer,
+    diagnostics: ParseDiagnostic[],
+    keep: boolean,
+): Token[] {
+    if (!tokens.some((t) => t.kind === TokenKind.Comment)) return tokens;
+    const close = `#${lexer.tagEnd}`;
+    const minLength = lexer.tagStart.length + 2 + close.length;
+    const out: Token[] = [];
+    for (const t of tokens) {
+        if (t.kind !== TokenKind.Comment) {
+            out.push(t);
+            continue;
+        }
+        if (t.value.length >= minLength && t.value.endsWith(close)) {
+            if (keep) out.push(t);
+            continue;
+        }
+        const open = [...lexer.tagStart].length + 1;
+        diagnostics.push({
+            severity: "error",
+            message: "Unclosed comment",
+            span: { start: t.span.start, end: advance(t.span.start, open) },
+            hint: `Expected '${close}' to close the comment.`,
+        });
+        out.push({ kind: TokenKind.Text, value: t.value, span: t.span });
+    }
+    return out;
+}
+
+/**
+ * Apply trim markers and `trimBlocks` to the Text tokens around tags, before
+ * parsing. Trimmed tokens get spans recomputed from `input`; tokens trimmed
+ * to nothing are removed.
+ */
+function trimWhitespace(
+    tokens: Token[],
+    input: string,
+    trimBlocks: boolean,
+): Token[] {
+    if (!trimBlocks && !tokens.some((t) => t.trim)) return tokens;
+    const out: (Token | null)[] = tokens.slice();
+    const locate = positionLocator(input);
+    const cut = (i: number, from: "start" | "end", n: number): void => {
+        const t = out[i];
+        if (!t || n === 0) return;
+        const value =
+            from === "start"
+                ? t.value.slice(n)
+                : t.value.slice(0, t.value.length - n);
+        if (value.length === 0) {
+            out[i] = null;
+            return;
+        }
+        out[i] = {
+            kind: TokenKind.Text,
+            value,
+            span:
+                from === "start"
+                    ? {
+                          start: locate(t.span.start.offset + n),
+                          end: t.span.end,
+                      }
+                    : {
+                          start: t.span.start,
+                          end: locate(t.span.end.offset - n),
+                      },
+        };
+    };
+    const isText = (t: Token | null | undefined): t is Token =>
+        t?.kind === TokenKind.Text && !t.quoted;
+
+    if (trimBlocks) {
+        // Tokens whose start was cut through a line break now begin a line.
+        const lineStart = new Set<number>([0]);
+        for (let i = 0; i < tokens.length; i++) {
+            if (tokens[i]?.kind !== TokenKind.TagStart) continue;
+            const marker = readBlockMarker(tokens, i);
+            if (!marker) continue;
+            const e =
+                marker.kind === "open"
+                    ? matchingTagEnd(tokens, i)
+                    : tokens.indexOf(marker.end, i);
+            if (e === -1) continue;
+
+            const prev = out[i - 1];
+            let before = -1;
+            if (prev === undefined || prev === null) before = 0;
+            else if (isText(prev)) {
+                const nl = prev.value.lastIndexOf("\n");
+                const tail = prev.value.slice(nl + 1);
+                if (
+                    /^[ \t]*$/.test(tail) &&
+                    (nl !== -1 || lineStart.has(i - 1))
+                ) {
+                    before = tail.length;
+                }
+            }
+            const next = out[e + 1];
+            let after = -1;
+            if (next?.kind === TokenKind.EOF) after = 0;
+            else if (isText(next)) {
+                const m = /^[ \t]*(\r?\n)?/.exec(next.value)?.[0] ?? "";
+                if (
+                    m.endsWith("\n") ||
+                    (m.length === next.value.length &&
+                        out[e + 2]?.kind === TokenKind.EOF)
+                ) {
+                    after = m.length;
+                }
+            }
+            if (before === -1 || after === -1) continue;
+            cut(i - 1, "end", before);
+            cut(e + 1, "start", after);
+            lineStart.add(e + 1);
+        }
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+        const t = tokens[i];
+        if (!t?.trim) continue;
+        const step = t.kind === TokenKind.TagStart ? -1 : 1;
+        for (let k = i + step; k >= 0 && k < out.length; k += step) {
+            const n = out[k];
+            if (n === null) continue;
+            if (!isText(n)) break;
+            const kept = step < 0 ? n.value.trimEnd() : n.value.trimStart();
+            cut(k, step < 0 ? "end" : "start", n.value.length - kept.length);
+            if (kept.length > 0) break;
+        }
+    }
+    return out.filter((t): t is Token => t !== null);
+}
+
+/** Index of the TagEnd closing the tag that starts at `i`, or -1. */
+function matchingTagEnd(tokens: readonly Token[], i: number): number {
+    let depth = 0;
+    for (let k = i; k < tokens.length; k++) {
+        const kind = tokens[k]?.kind;
+        if (kind === TokenKind.TagStart) depth++;
+        else if (kind === TokenKind.TagEnd && --depth === 0) return k;
+    }
+    return -1;
+}
+
+/**
+ * Replace the first argument of every expression tag with an ExpressionNode
+ * where it parses as one. The expression is read from the source under the
+ * argument's span, so quotes and escapes reach the expression parser as
+ * written. Untouched subtrees are returned as they are.
+ */
+function parseExpressions(
+    nodes: readonly TemplateNode[],
+    input: string,
+    tags: ReadonlySet<string>,
+    diagnostics: ParseDiagnostic[],
+): readonly TemplateNode[] {
+    if (tags.size === 0) return nodes;
+    let source: string[] | undefined; // code points, split on first use
+
+    const visitArg = (arg: ArgumentNode): ArgumentNode => {
+        const inner = visitNodes(arg.nodes);
+        return inner === arg.nodes ? arg : { ...arg, nodes: inner };
+    };
+    const visitNodes = (
+        list: readonly TemplateNode[],
+    ): readonly TemplateNode[] => {
+        let out: TemplateNode[] | undefined;
+        list.forEach((node, i) => {
+            if (node.kind !== NodeKind.Tag) return;
+            const tag = visitTag(node);
+            if (tag === node) return;
+            out ??= [...list];
+            out[i] = tag;
+        });
+        return out ?? list;
+    };
+    const visitTag = (node: TagNode): TagNode => {
+        let args = node.args.map(visitArg);
+        let named = node.named;
+        if (named) {
+            const entries = Object.entries(named);
+            const mapped = entries.map(([k, a]) => [k, visitArg(a)] as const);
+            if (mapped.some(([, a], i) => a !== entries[i]?.[1])) {
+                named = Object.assign(
+                    Object.create(null),
+                    Object.fromEntries(mapped),
+                );
+            }
+        }
+        const first = args[0];
+        if (
+            tags.has(node.name) &&
+            first &&
+            first.nodes.length > 0 &&
+            first.nodes.every((n) => n.kind === NodeKind.Text)
+        ) {
+            source ??= Array.from(input);
+            const text = source
+                .slice(first.span.start.offset, first.span.end.offset)
+                .join("");
+            const result = parseExpression(text, first.span.start);
+            if (result && "diagnostic" in result) {
+                diagnostics.push(result.diagnostic);
+            } else if (result) {
+                args = [
+                    {
+                        ...first,
+                        nodes: [
+                            {
+                                kind: NodeKind.Expression,
+                                expression: result.expression,
+                                source: text,
+                                span: first.span,
+                            },
+                        ],
+                    },
+                    ...args.slice(1),
+                ];
+            }
+        }
+        if (named === node.named && args.every((a, i) => a === node.args[i])) {
+            return node;
+        }
+        return { ...node, args, ...(named && { named }) };
+    };
+
+    return visitNodes(nodes);
+}
+
+/** Map a code point offset in `input` to a full Position. */
+function positionLocator(input: string): (offset: number) => Position {
+    const lineStarts = [0];
+    let offset = 0;
+    for (const ch of input) {
+        offset++;
+        if (ch === "\n") lineStarts.push(offset);
+    }
+    return (target) => {
+        let line = lineStarts.length - 1;
+        while (line > 0 && (lineStarts[line] as number) > target) line--;
+        return {
+            line: line + 1,
+            column: target - (lineStarts[line] as number) + 1,
+            offset: target,
+        };
     };
 }
 
@@ -386,3 +1258,8 @@ function pushText(out: TemplateNode[], value: string, span: Span): void {
     }
     out.push({ kind: NodeKind.Text, value, span });
 }
+
+/** Move a position forward over `n` characters that contain no newline. */
+function advance(pos: Position, n: number): Position {
+    return { line: pos.line, column: pos.column + n, offset: pos.offset + n };
+}
@@ -0,0 +1,278 @@
+import type {
+    ArgumentNode,
+    CstNode,
+    LexerOptions,
+    MacroDefinition,
+    ParserOptions,
+    TagNode,
+    TemplateNode,
+} from "../../types.js";
+import { CstKind, NodeKind } from "../../types.js";
+import { Lexer } from "../lexer/Lexer.js";
+import { DEFINE_TAG } from "../parser/Macros.js";
+import { parse } from "../parser/Parser.js";
+
+export interface PrintOptions
+    extends Pick<
+        LexerOptions,
+        "tagStart" | "tagEnd" | "escapeChar" | "quotes"
+    > {
+    /**
+     * The filter-chain operator the output will be parsed with; names
+     * containing it are escaped. Default: false.
+     */
+    readonly filterOperator?: string | false;
+}
+
+/** Parser options of the source; format() prints with the same syntax. */
+export type FormatOptions = Omit<
+    ParserOptions,
+    "cst" | "keepComments" | "layouts" | "strict"
+>;
+
+interface Syntax {
+    readonly tagStart: string;
+    readonly tagEnd: string;
+    readonly escapeChar: string;
+    readonly quotes: readonly string[];
+    readonly filterOperator: string | false;
+    /** Print nested filters as chains (format() only). */
+    readonly chains: boolean;
+}
+
+/**
+ * Where text is printed, which decides what must be escaped: top-level
+ * text, a tag or variable name, an argument, or an argument of a filter in
+ * a chain.
+ */
+type Place = "text" | "name" | "arg" | "link";
+
+/** What parse() would read as `key=` at the start of an argument. */
+const NAMED_ARG = /^[A-Za-z_]\w*=/;
+
+/**
+ * Turn nodes back into template source.
+ *
+ * CST nodes (ParserOptions.cst) print exactly as written, so printing a
+ * whole CST reproduces its input byte for byte, whatever the options.
+ * AST nodes print in canonical form with the given delimiters: variables as
+ * `{name}`, tags inline as `{name:arg|key=value}` (blocks and filter chains
+ * included), comments as `{# ... #}`, and text escaped wherever it would
+ * otherwise be read as syntax. Parsing the output gives the same AST, spans
+ * and trimmed whitespace aside.
+ */
+export function print(
+    nodes: readonly (TemplateNode | CstNode)[],
+    options: PrintOptions = {},
+): string {
+    return printNodes(nodes, syntaxOf(options, false), "text");
+}
+
+/**
+ * Reformat template source: tags print inline with canonical delimiters and
+ * escapes, trim markers are applied, and tags nested two or more deep in
+ * first arguments, such as `{upper:{trim:{name}}}`, become filter chains
+ * (`{name >> trim >> upper}`) when `filterOperator` is set. Comments and
+ * macro definitions stay where they are. The output renders like the input
+ * and formatting it again changes nothing.
+ */
+export function format(source: string, options: FormatOptions = {}): string {
+    const { template } = parse(source, { ...options, keepComments: true });
+    const nodes: TemplateNode[] = [...template.nodes];
+    for (const macro of Object.values(template.macros ?? {})) {
+        const at = nodes.findIndex(
+            (n) => n.span.start.offset >= macro.span.end.offset,
+        );
+        nodes.splice(at === -1 ? nodes.length : at, 0, defineTag(macro));
+    }
+    return printNodes(nodes, syntaxOf(options, true), "text");
+}
+
+function syntaxOf(options: PrintOptions, chains: boolean): Syntax {
+    // The lexer resolves defaults and rejects invalid delimiters.
+    const lexer = new Lexer("", options);
+    const filterOperator = options.filterOperator ?? false;
+    return {
+        tagStart: lexer.tagStart,
+        tagEnd: lexer.tagEnd,
+        escapeChar: lexer.escapeChar,
+        quotes: Array.from(lexer.quotes),
+        filterOperator,
+        chains: chains && filterOperator !== false,
+    };
+}
+
+function printNodes(
+    nodes: readonly (TemplateNode | CstNode)[],
+    syntax: Syntax,
+    place: Place,
+): string {
+    let out = "";
+    for (const node of nodes) {
+        switch (node.kind) {
+            case NodeKind.Text:
+                out += escapeText(node.value, syntax, place);
+                break;
+            case NodeKind.Variable:
+                out +=
+                    syntax.tagStart +
+                    escapeText(node.name, syntax, "name") +
+                    syntax.tagEnd;
+                break;
+            case NodeKind.Tag:
+                out += printTag(node, syntax);
+                break;
+            case NodeKind.Comment:
+                out += `${syntax.tagStart}#${node.value}#${syntax.tagEnd}`;
+                break;
+            case NodeKind.Expression:
+                // Expressions keep the argument's source as written.
+                out += node.source;
+                break;
+            case CstKind.Tag:
+                out += node.open + printNodes(node.name, syntax, place);
+                for (const arg of node.args) {
+                    out += arg.separator + printNodes(arg.nodes, syntax, place);
+                }
+                out += node.close ?? "";
+                break;
+            default:
+                out += node.text;
+        }
+    }
+    return out;
+}
+
+function printTag(node: TagNode, syntax: Syntax): string {
+    const chain = syntax.chains ? chainOf(node, syntax) : undefined;
+    if (chain) {
+        let out = syntax.tagStart + chain.head;
+        for (const link of chain.links) {
+            out += ` ${syntax.filterOperator} ${link.name}`;
+            const rest = printArgs(
+                link.args.slice(1),
+                link.named,
+                syntax,
+                "link",
+            );
+            if (rest !== undefined) out += `:${rest}`;
+        }
+        return out + syntax.tagEnd;
+    }
+    const args = printArgs(node.args, node.named, syntax, "arg");
+    return (
+        syntax.tagStart +
+        escapeText(node.name, syntax, "name") +
+        // A tag needs at least one argument to stay a tag.
+        `:${args ?? ""}` +
+        syntax.tagEnd
+    );
+}
+
+/** Positional then named arguments joined by `|`; undefined if none. */
+function printArgs(
+    args: readonly ArgumentNode[],
+    named: Readonly<Record<string, ArgumentNode>> | undefined,
+    syntax: Syntax,
+    place: Place,
+): string | undefined {
+    const parts = args.map((arg) => {
+        const text = printNodes(arg.nodes, syntax, place);
+        const key =
+            arg.nodes[0]?.kind === NodeKind.Text && NAMED_ARG.exec(text);
+        if (!key) return text;
+        // Keep a positional `key=...` from being read as named.
+        const at = key[0].length - 1;
+        return text.slice(0, at) + syntax.escapeChar + text.slice(at);
+    });
+    for (const [key, arg] of Object.entries(named ?? {})) {
+        parts.push(`${key}=${printNodes(arg.nodes, syntax, place)}`);
+    }
+    return parts.length > 0 ? parts.join("|") : undefined;
+}
+
+/**
+ * `node` as a filter chain: a variable and at least two tags, each taking
+ * the one before as its whole first argument. Undefined when a name has
+ * surrounding whitespace or needs escaping, which chains do not keep.
+ */
+function chainOf(
+    node: TagNode,
+    syntax: Syntax,
+): { head: string; links: readonly TagNode[] } | undefined {
+    const plain = (name: string) =>
+        name !== "" &&
+        name.trim() === name &&
+        escapeText(name, syntax, "name") === name;
+    const links: TagNode[] = [];
+    let current: TemplateNode = node;
+    while (current.kind === NodeKind.Tag) {
+        if (!plain(current.name)) return undefined;
+        links.unshift(current);
+        const first: ArgumentNode | undefined = current.args[0];
+        if (first?.nodes.length !== 1) return undefined;
+        current = first.nodes[0] as TemplateNode;
+    }
+    if (
+        current.kind !== NodeKind.Variable ||
+        !plain(current.name) ||
+        links.length < 2
+    ) {
+        return undefined;
+    }
+    return { head: current.name, links };
+}
+
+/**
+ * Escape the characters of `text` that parse() would read as syntax at
+ * `place`: always the escape character and tag start; inside tags also the
+ * tag end, `|`, quotes and a `-` that would close a trim marker; in names
+ * also `:`, the filter operator and a leading block, comment or trim marker.
+ */
+function escapeText(text: string, syntax: Syntax, place: Place): string {
+    const specials = [syntax.escapeChar, syntax.tagStart];
+    if (place !== "text") specials.push(syntax.tagEnd, "|", ...syntax.quotes);
+    if (place === "name") specials.push(":");
+    if ((place === "name" || place === "link") && syntax.filterOperator) {
+        specials.push(syntax.filterOperator);
+    }
+    let out = "";
+    let i = 0;
+    while (i < text.length) {
+        const ch = String.fromCodePoint(text.codePointAt(i) as number);
+        const next = i + ch.length;
+        if (
+            specials.some((s) => text.startsWith(s, i)) ||
+            (place === "name" && i === 0 && /^(?:[#/]|-\s)/.test(text)) ||
+            (place !== "text" &&
+                ch === "-" &&
+                next === text.length &&
+                /\s/.test(text[i - 1] ?? ""))
+        ) {
+            out += syntax.escapeChar;
+        }
+        out += ch;
+        i = next;
+    }
+    return out;
+}
+
+/** The `{define}` tag that declares `macro`. */
+function defineTag(macro: MacroDefinition): TagNode {
+    const literal = (value: string): ArgumentNode => ({
+        kind: NodeKind.Argument,
+        nodes: [{ kind: NodeKind.Text, value, span: macro.span }],
+        span: macro.span,
+    });
+    const body: ArgumentNode = {
+        kind: NodeKind.Argument,
+        nodes: macro.body,
+        span: macro.span,
+    };
+    return {
+        kind: NodeKind.Tag,
+        name: DEFINE_TAG,
+        args: [literal(macro.name), ...macro.params.map(literal), body],
+        span: macro.span,
+    };
+}
@@ -39,7 +39,11 @@ export function pathResolver<Ctx = unknown>(
     };
 }
 
-function walkPath(
+/**
+ * Walk a dotted path into `root` with the rules above. The renderer uses it
+ * for dotted access into locals, e.g. `{it.name}` inside {each}.
+ */
+export function walkPath(
     root: unknown,
     path: string,
 ): string | number | boolean | object | null | undefined {
@@ -1,25 +1,15 @@
 import type { Awaitable, TagHandler } from "../../types.js";
+import { isTruthy } from "../compiler/Evaluate.js";
 import {
     defineStructuralTag,
+    defineValueTag,
     type StructuralTagHandler,
+    setLocal,
     stringify,
+    type ValueTagHandler,
 } from "../compiler/Render.js";
 
-/**
- * Truthiness rules for tag arguments.
- * Empty string, "0", "false", "null", "undefined", "no" are falsy. Anything else is truthy.
- */
-export function isTruthy(value: string): boolean {
-    if (value.length === 0) return false;
-    const lower = value.trim().toLowerCase();
-    return (
-        lower !== "0" &&
-        lower !== "false" &&
-        lower !== "null" &&
-        lower !== "undefined" &&
-        lower !== "no"
-    );
-}
+export { isTruthy };
 
 /**
  * Helper for built-in tags that need to handle both sync and async render
@@ -37,15 +27,25 @@ function maybeAwait<T>(
 }
 
 /**
- * Turn the rendered list argument into items.
+ * Turn the list argument into items.
  *
- * Array variables reach this tag already JSON-stringified by the renderer
- * (e.g. `["a","b"]`), so a JSON array is parsed back and each element is
- * stringified with the library's normal rules. Anything else is treated as a
- * comma-separated string. Comma items are trimmed; JSON string items are used
+ * A lone `{var}` or value-returning tag arrives as its value, so arrays (and
+ * other iterables) are used item for item, objects included. A string is
+ * either a JSON array — e.g. an array that went through a string-only tag —
+ * whose elements are stringified with the library's normal rules, or a
+ * comma-separated list. Comma items are trimmed; JSON string items are used
  * verbatim.
  */
-function toItems(list: string): string[] {
+function toItems(value: unknown): unknown[] {
+    if (value === null || value === undefined) return [];
+    if (Array.isArray(value)) return value;
+    if (
+        typeof value === "object" &&
+        typeof (value as Iterable<unknown>)[Symbol.iterator] === "function"
+    ) {
+        return Array.from(value as Iterable<unknown>);
+    }
+    const list = stringify(value);
     const trimmed = list.trim();
     if (
         trimmed.length >= 2 &&
@@ -62,6 +62,9 @@ function toItems(list: string): string[] {
     return list.length === 0 ? [] : list.split(",").map((s) => s.trim());
 }
 
+/** Conditions are inputs, so they render without auto-escaping. */
+const RAW = { raw: true } as const;
+
 /**
  * {if:cond|then|else}
  *   - 2 args: if cond truthy, render then. Else "".
@@ -73,7 +76,7 @@ export const ifTag: StructuralTagHandler = defineStructuralTag(
         const condExpr = args[0];
         const thenExpr = args[1];
         if (!condExpr || !thenExpr) return "";
-        const cond = render(condExpr) as Awaitable<string>;
+        const cond = render(condExpr, undefined, RAW) as Awaitable<string>;
         return maybeAwait(cond, (resolved) => {
             if (isTruthy(resolved))
                 return render(thenExpr) as Awaitable<string>;
@@ -91,7 +94,7 @@ export const unlessTag: StructuralTagHandler = defineStructuralTag(
         const condExpr = args[0];
         const thenExpr = args[1];
         if (!condExpr || !thenExpr) return "";
-        const cond = render(condExpr) as Awaitable<string>;
+        const cond = render(condExpr, undefined, RAW) as Awaitable<string>;
         return maybeAwait(cond, (resolved) => {
             if (!isTruthy(resolved))
                 return render(thenExpr) as Awaitable<string>;
@@ -101,27 +104,31 @@ export const unlessTag: StructuralTagHandler = defineStructuralTag(
 );
 
 /**
- * {each:list|template|separator?}
+ * {each:list|template|separator?} or {each:list|template|sep=separator}
  *
- * list: comma-separated string — items cannot contain commas (no escape mechanism).
+ * list: an array or iterable value, or a comma-separated string — string
+ * items cannot contain commas (no escape mechanism).
  * The template re-renders for each item with locals:
  *   {it} = item, {idx} = 0-based index, {idx1} = 1-based, {first}, {last}.
+ * Object items keep their fields: `{each:{members}|{it.name}}`.
+ *
+ * Under renderAsync() every item's render is requested up front, so items run
+ * as concurrently as the `concurrency` option allows (sequentially by default).
  */
 export const eachTag: StructuralTagHandler = defineStructuralTag(
-    (args, _ctx, render) => {
+    (args, _ctx, render, evaluate, named) => {
         if (args.length < 2 || args.length > 3) return "";
         const listExpr = args[0];
         const itemExpr = args[1];
         if (!listExpr || !itemExpr) return "";
 
-        const renderList = render(listExpr) as Awaitable<string>;
-
-        return maybeAwait(renderList, (list) => {
+        return maybeAwait(evaluate(listExpr), (list) => {
             const items = toItems(list);
             if (items.length === 0) return "";
 
-            const renderSep = args[2]
-                ? (render(args[2]) as Awaitable<string>)
+            const sepExpr = args[2] ?? named.sep;
+            const renderSep = sepExpr
+                ? (render(sepExpr) as Awaitable<string>)
                 : "";
 
             return maybeAwait(renderSep, (sep) => {
@@ -155,6 +162,132 @@ export const eachTag: StructuralTagHandler = defineStructuralTag(
     },
 );
 
+/**
+ * {switch:value|case|output|case|output|...|default?}
+ *
+ * Renders the output of the first case matching `value`, else `default` (the
+ * odd argument out), else "". A case may list several values separated by
+ * commas: `gold,platinum`. `mode=` picks the comparison:
+ *   - exact (default): equal strings, ignoring surrounding whitespace
+ *   - nocase: equal strings, ignoring case
+ *   - range: `value` as a number against `min..max` (either side optional,
+ *     both inclusive) or a plain number
+ *
+ * Cases are rendered one at a time until one matches, and only the chosen
+ * output is rendered, so the variables and tags of other branches are never
+ * resolved or called.
+ */
+export const switchTag: StructuralTagHandler = defineStructuralTag(
+    (args, _ctx, render, _evaluate, named) => {
+        const valueExpr = args[0];
+        if (!valueExpr || args.length < 2) return "";
+        const mode = named.mode
+            ? (render(named.mode, undefined, RAW) as Awaitable<string>)
+            : "exact";
+        return maybeAwait(mode, (resolvedMode) => {
+            const value = render(valueExpr, undefined, RAW);
+            return maybeAwait(value as Awaitable<string>, (resolved) => {
+                const matches = caseMatcher(resolvedMode.trim(), resolved);
+                const pick = (i: number): Awaitable<string> => {
+                    const label = args[i];
+                    const output = args[i + 1];
+                    if (!label) return "";
+                    if (!output) return render(label) as Awaitable<string>;
+                    const rendered = render(label, undefined, RAW);
+                    return maybeAwait(rendered as Awaitable<string>, (l) =>
+                        matches(l) ? render(output) : pick(i + 2),
+                    );
+                };
+                return pick(1);
+            });
+        }) as string;
+    },
+);
+
+/** Test a {switch} case label, which may hold several values, in `mode`. */
+function caseMatcher(mode: string, value: string): (label: string) => boolean {
+    const cases = (label: string) => label.split(",").map((c) => c.trim());
+    switch (mode) {
+        case "exact": {
+            const v = value.trim();
+            return (label) => cases(label).includes(v);
+        }
+        case "nocase": {
+            const v = value.trim().toLowerCase();
+            return (label) => cases(label.toLowerCase()).includes(v);
+        }
+        case "range": {
+            const n = value.trim() === "" ? Number.NaN : Number(value);
+            if (Number.isNaN(n)) return () => false;
+            return (label) => cases(label).some((c) => inRange(n, c));
+        }
+        default:
+            throw new Error(
+                `Unknown {switch} mode '${mode}'; expected exact, nocase or range`,
+            );
+    }
+}
+
+/** Whether `n` is in `min..max` (either end optional) or equals `c`. */
+function inRange(n: number, c: string): boolean {
+    const dots = c.indexOf("..");
+    if (dots === -1) return c !== "" && Number(c) === n;
+    const min = c.slice(0, dots).trim();
+    const max = c.slice(dots + 2).trim();
+    return (min === "" || n >= Number(min)) && (max === "" || n <= Number(max));
+}
+
+/**
+ * {raw:text} — splice `text` in without auto-escaping. Only for trusted
+ * values; with escaping off it is a no-op.
+ */
+export const rawTag: StructuralTagHandler = defineStructuralTag(
+    (args, _ctx, render) => {
+        const value = args[0];
+        if (args.length !== 1 || !value) return "";
+        return render(value, undefined, RAW);
+    },
+);
+
+/**
+ * {set:name|value} — store `value` as the local `name` for the rest of the
+ * current scope, and render nothing. A lone `{var}` or value tag is stored as
+ * its value, so `{set:top|{members}}` keeps the array.
+ *
+ * The scope is the innermost frame of locals: the template, an {each} item,
+ * a {let} body, a macro or a partial. Later nodes in that frame read the
+ * value as `{name}`, ahead of variables of the same name; enclosing frames
+ * never see it. Nodes render in order in render() and in renderAsync() with
+ * the default `concurrency` of 1; with more, siblings render concurrently and
+ * may not see a {set} before them.
+ */
+export const setTag: ValueTagHandler = defineValueTag((args, ctx) => {
+    if (args.length !== 2) return "";
+    const name = stringify(args[0]).trim();
+    if (name.length > 0) setLocal(ctx, name, args[1]);
+    return "";
+});
+
+/**
+ * {let:name|value|body} — render `body` with the local `name` bound to
+ * `value`. Outside `body`, `{name}` is unaffected.
+ */
+export const letTag: StructuralTagHandler = defineStructuralTag(
+    (args, _ctx, render, evaluate) => {
+        if (args.length !== 3) return "";
+        const [nameExpr, valueExpr, body] = args;
+        if (!nameExpr || !valueExpr || !body) return "";
+        const name = render(nameExpr, undefined, RAW) as Awaitable<string>;
+        return maybeAwait(name, (resolved) => {
+            const key = resolved.trim();
+            if (key.length === 0) return "";
+            return maybeAwait(evaluate(valueExpr), (value) =>
+                render(body, { [key]: value }),
+            );
+        }) as string;
+    },
+);
+
 /**
  * {eq:a|b} — "true" if equal, "" otherwise (so it composes with {if}).
  */
@@ -172,39 +305,50 @@ export const neTag: TagHandler = (args) => {
 };
 
 /**
- * {gt:a|b} — numeric comparison. "" if either non-numeric.
+ * Numbers pass straight through; anything else goes through Number() on its
+ * string form, as before value tags.
  */
-export const gtTag: TagHandler = (args) => {
-    if (args.length !== 2) return "";
-    const a = Number(args[0]);
-    const b = Number(args[1]);
-    if (!Number.isFinite(a) || !Number.isFinite(b)) return "";
-    return a > b ? "true" : "";
-};
+function toNumber(value: unknown): number {
+    return typeof value === "number" ? value : Number(stringify(value));
+}
 
-export const ltTag: TagHandler = (args) => {
-    if (args.length !== 2) return "";
-    const a = Number(args[0]);
-    const b = Number(args[1]);
-    if (!Number.isFinite(a) || !Number.isFinite(b)) return "";
-    return a < b ? "true" : "";
-};
+type NumberTest = (a: number, b: number) => boolean;
 
-export const gteTag: TagHandler = (args) => {
-    if (args.length !== 2) return "";
-    const a = Number(args[0]);
-    const b = Number(args[1]);
-    if (!Number.isFinite(a) || !Number.isFinite(b)) return "";
-    return a >= b ? "true" : "";
-};
+const COMPARISONS = {
+    gt: (a, b) => a > b,
+    lt: (a, b) => a < b,
+    gte: (a, b) => a >= b,
+    lte: (a, b) => a <= b,
+} satisfies Record<string, NumberTest>;
 
-export const lteTag: TagHandler = (args) => {
+function compare(args: readonly unknown[], test: NumberTest): string {
     if (args.length !== 2) return "";
-    const a = Number(args[0]);
-    const b = Number(args[1]);
+    const a = toNumber(args[0]);
+    const b = toNumber(args[1]);
     if (!Number.isFinite(a) || !Number.isFinite(b)) return "";
-    return a <= b ? "true" : "";
-};
+    return test(a, b) ? "true" : "";
+}
+
+function compareTag(test: NumberTest): TagHandler {
+    return (args) => compare(args, test);
+}
+
+/**
+ * The value-tag form builtinTags registers, so numbers reach the comparison
+ * unstringified. The exported handlers keep the plain string signature.
+ */
+function compareValueTag(test: NumberTest): ValueTagHandler {
+    return defineValueTag((args) => compare(args, test));
+}
+
+/**
+ * {gt:a|b} {lt:a|b} {gte:a|b} {lte:a|b} — numeric comparison. "" if either
+ * non-numeric.
+ */
+export const gtTag: TagHandler = compareTag(COMPARISONS.gt);
+export const ltTag: TagHandler = compareTag(COMPARISONS.lt);
+export const gteTag: TagHandler = compareTag(COMPARISONS.gte);
+export const lteTag: TagHandler = compareTag(COMPARISONS.lte);
 
 /**
  * {not:value} — flip truthiness; "true" if falsy, "" otherwise.
@@ -219,6 +363,15 @@ export const upperTag: TagHandler = (args) => (args[0] ?? "").toUpperCase();
 export const lowerTag: TagHandler = (args) => (args[0] ?? "").toLowerCase();
 export const trimTag: TagHandler = (args) => (args[0] ?? "").trim();
 export const lengthTag: TagHandler = (args) => String((args[0] ?? "").length);
+/**
+ * {length:value} — item count of an array, otherwise string length. This is
+ * the value tag builtinTags registers; lengthTag takes strings only.
+ */
+const lengthValueTag: ValueTagHandler = defineValueTag((args) => {
+    const value = args[0];
+    if (Array.isArray(value)) return value.length;
+    return stringify(value).length;
+});
 export const replaceTag: TagHandler = (args) => {
     if (args.length !== 3) return args[0] ?? "";
     return (args[0] ?? "").split(args[1] ?? "").join(args[2] ?? "");
@@ -238,17 +391,21 @@ export const builtinTags = {
     if: ifTag,
     unless: unlessTag,
     each: eachTag,
+    switch: switchTag,
+    raw: rawTag,
+    set: setTag,
+    let: letTag,
     eq: eqTag,
     ne: neTag,
-    gt: gtTag,
-    lt: ltTag,
-    gte: gteTag,
-    lte: lteTag,
+    gt: compareValueTag(COMPARISONS.gt),
+    lt: compareValueTag(COMPARISONS.lt),
+    gte: compareValueTag(COMPARISONS.gte),
+    lte: compareValueTag(COMPARISONS.lte),
     not: notTag,
     upper: upperTag,
     lower: lowerTag,
     trim: trimTag,
-    length: lengthTag,
+    length: lengthValueTag,
     replace: replaceTag,
     default: defaultTag,
 } as const;
@@ -1,16 +1,26 @@
 import type {
     ArgumentNode,
+    CommentNode,
+    ExpressionNode,
+    IdentifierExpr,
     TagNode,
     TemplateNode,
     TextNode,
     VariableNode,
 } from "../../types.js";
 import { NodeKind } from "../../types.js";
+import { INCLUDE_TAG } from "../compiler/Partials.js";
+import {
+    expressionIdentifiers,
+    renameIdentifiers,
+} from "../parser/Expression.js";
 
 export interface VisitContext {
     readonly parent: TemplateNode | ArgumentNode | null;
     readonly depth: number;
     readonly index: number;
+    /** The key, when visiting a `key=value` argument. */
+    readonly name?: string;
 }
 
 export interface Visitor {
@@ -23,11 +33,16 @@ export interface Visitor {
     visitVariable?(node: VariableNode, ctx: VisitContext): void;
     visitTag?(node: TagNode, ctx: VisitContext): void;
     visitArgument?(node: ArgumentNode, ctx: VisitContext): void;
+    visitComment?(node: CommentNode, ctx: VisitContext): void;
+    visitExpression?(node: ExpressionNode, ctx: VisitContext): void;
 }
 
 /**
  * Walk a node tree depth-first, calling visitor methods. Returning "skip"
  * from `enter` skips children; "stop" aborts the entire traversal.
+ *
+ * A tag's named arguments are visited after its positional ones, with
+ * indexes continuing from the last positional argument.
  */
 export function walk(nodes: readonly TemplateNode[], visitor: Visitor): void {
     const state = { stopped: false };
@@ -61,14 +76,13 @@ function walkInner(
                     break;
                 case NodeKind.Tag:
                     visitor.visitTag?.(node, ctx);
-                    for (let j = 0; j < node.args.length; j++) {
+                    for (const [j, arg, name] of tagArgs(node)) {
                         if (state.stopped) return;
-                        const arg = node.args[j];
-                        if (!arg) continue;
                         const argCtx: VisitContext = {
                             parent: node,
                             depth: depth + 1,
                             index: j,
+                            ...(name !== undefined && { name }),
                         };
                         const argEnter = visitor.enter?.(arg, argCtx);
                         if (argEnter === "stop") {
@@ -88,12 +102,193 @@ function walkInner(
                         visitor.leave?.(arg, argCtx);
                     }
                     break;
+                case NodeKind.Comment:
+                    visitor.visitComment?.(node, ctx);
+                    break;
+                case NodeKind.Expression:
+                    visitor.visitExpression?.(node, ctx);
+                    break;
             }
         }
         visitor.leave?.(node, ctx);
     }
 }
 
+function* tagArgs(
+    node: TagNode,
+): Generator<[number, ArgumentNode, string | undefined]> {
+    let j = 0;
+    for (const arg of node.args) yield [j++, arg, undefined];
+    if (!node.named) return;
+    for (const [name, arg] of Object.entries(node.named)) {
+        yield [j++, arg, name];
+    }
+}
+
+/**
+ * What a Transformer callback returns: undefined keeps the node, null
+ * deletes it, and a node or an array of nodes replaces it.
+ */
+export type TransformResult =
+    | TemplateNode
+    | readonly TemplateNode[]
+    | null
+    | undefined;
+
+export interface Transformer {
+    visitText?(node: TextNode, ctx: VisitContext): TransformResult;
+    visitVariable?(node: VariableNode, ctx: VisitContext): TransformResult;
+    visitTag?(node: TagNode, ctx: VisitContext): TransformResult;
+    visitComment?(node: CommentNode, ctx: VisitContext): TransformResult;
+    visitExpression?(node: ExpressionNode, ctx: VisitContext): TransformResult;
+    /**
+     * A variable read inside an expression, such as `level` in
+     * `{if:level >= 10|...}`, which visitVariable does not see. Return a new
+     * name to rename it, or undefined to keep it. `ctx` is the expression's.
+     */
+    visitIdentifier?(
+        node: IdentifierExpr,
+        ctx: VisitContext,
+    ): string | undefined;
+}
+
+/**
+ * Rewrite a node tree bottom-up and return the new tree. A tag's arguments
+ * are transformed before the tag itself, so `visitTag` sees the rewritten
+ * arguments; likewise an expression's variables are renamed, and its source
+ * rewritten, before `visitExpression` sees it. Replacements are not visited
+ * again. `ctx` is the one walk() would pass, its `parent` being the node
+ * before rewriting.
+ *
+ * Nodes are never mutated. Unchanged subtrees and lists are returned as they
+ * are, so `transform(nodes, {}) === nodes`. Where a list changes, adjacent
+ * text nodes are merged and empty ones dropped, as the parser does.
+ */
+export function transform(
+    nodes: readonly TemplateNode[],
+    transformer: Transformer,
+): readonly TemplateNode[] {
+    return transformList(nodes, transformer, null, 0);
+}
+
+function transformList(
+    nodes: readonly TemplateNode[],
+    transformer: Transformer,
+    parent: TemplateNode | ArgumentNode | null,
+    depth: number,
+): readonly TemplateNode[] {
+    let out: TemplateNode[] | undefined;
+    nodes.forEach((node, i) => {
+        const ctx: VisitContext = { parent, depth, index: i };
+        const result = transformNode(node, transformer, ctx);
+        if (result === node && !out) return;
+        out ??= nodes.slice(0, i);
+        if (result === null) return;
+        const list = Array.isArray(result)
+            ? (result as readonly TemplateNode[])
+            : [result as TemplateNode];
+        for (const n of list) pushNode(out, n);
+    });
+    return out ?? nodes;
+}
+
+function transformNode(
+    node: TemplateNode,
+    transformer: Transformer,
+    ctx: VisitContext,
+): TransformResult {
+    let result: TransformResult;
+    switch (node.kind) {
+        case NodeKind.Text:
+            result = transformer.visitText?.(node, ctx);
+            break;
+        case NodeKind.Variable:
+            result = transformer.visitVariable?.(node, ctx);
+            break;
+        case NodeKind.Tag: {
+            const tag = transformTag(node, transformer, ctx.depth);
+            result = transformer.visitTag?.(tag, ctx);
+            if (result === undefined) result = tag;
+            break;
+        }
+        case NodeKind.Comment:
+            result = transformer.visitComment?.(node, ctx);
+            break;
+        case NodeKind.Expression: {
+            const expression = transformExpression(node, transformer, ctx);
+            result = transformer.visitExpression?.(expression, ctx);
+            if (result === undefined) result = expression;
+            break;
+        }
+    }
+    return result === undefined ? node : result;
+}
+
+/** `node` with its variables renamed by `visitIdentifier`, or `node`. */
+function transformExpression(
+    node: ExpressionNode,
+    transformer: Transformer,
+    ctx: VisitContext,
+): ExpressionNode {
+    const rename = transformer.visitIdentifier;
+    if (!rename) return node;
+    const renamed = renameIdentifiers(
+        node.source,
+        node.span.start,
+        node.expression,
+        (id) => rename.call(transformer, id, ctx),
+    );
+    return renamed ? { ...node, ...renamed } : node;
+}
+
+/** `node` with its arguments transformed, or `node` if none changed. */
+function transformTag(
+    node: TagNode,
+    transformer: Transformer,
+    depth: number,
+): TagNode {
+    const args: ArgumentNode[] = [];
+    const named: [string, ArgumentNode][] = [];
+    let changed = false;
+    for (const [j, arg, name] of tagArgs(node)) {
+        const inner = transformList(arg.nodes, transformer, arg, depth + 2);
+        const next = inner === arg.nodes ? arg : { ...arg, nodes: inner };
+        changed ||= next !== arg;
+        if (name === undefined) args[j] = next;
+        else named.push([name, next]);
+    }
+    if (!changed) return node;
+    return {
+        ...node,
+        args,
+        ...(node.named && {
+            named: Object.assign(
+                Object.create(null),
+                Object.fromEntries(named),
+            ),
+        }),
+    };
+}
+
+/** Append `node`, merging it into preceding text like the parser does. */
+function pushNode(out: TemplateNode[], node: TemplateNode): void {
+    if (node.kind !== NodeKind.Text) {
+        out.push(node);
+        return;
+    }
+    if (node.value.length === 0) return;
+    const last = out[out.length - 1];
+    if (last?.kind === NodeKind.Text) {
+        out[out.length - 1] = {
+            kind: NodeKind.Text,
+            value: last.value + node.value,
+            span: { start: last.span.start, end: node.span.end },
+        };
+        return;
+    }
+    out.push(node);
+}
+
 export function findNodes(
     nodes: readonly TemplateNode[],
     predicate: (n: TemplateNode) => boolean,
@@ -112,7 +307,8 @@ export function findNodes(
 }
 
 /**
- * Collect the set of variable names referenced anywhere in the template.
+ * Collect the set of variable names referenced anywhere in the template,
+ * expressions included.
  * Useful for pre-flight validation: "is this template using a variable I
  * haven't provided?"
  */
@@ -124,6 +320,11 @@ export function collectVariableNames(
         visitVariable(n) {
             names.add(n.name);
         },
+        visitExpression(n) {
+            for (const name of expressionIdentifiers(n.expression)) {
+                names.add(name);
+            }
+        },
     });
     return names;
 }
@@ -140,3 +341,28 @@ export function collectTagNames(nodes: readonly TemplateNode[]): Set<string> {
     });
     return names;
 }
+
+/**
+ * Collect the names of partials pulled in with `{include:name}`. A name built
+ * from variables or tags (`{include:{kind}-badge}`) is only known at render
+ * time, so it is skipped.
+ */
+export function collectPartialNames(
+    nodes: readonly TemplateNode[],
+): Set<string> {
+    const names = new Set<string>();
+    walk(nodes, {
+        visitTag(n) {
+            const arg = n.args[0];
+            if (n.name !== INCLUDE_TAG || !arg) return;
+            let name = "";
+            for (const part of arg.nodes) {
+                if (part.kind !== NodeKind.Text) return;
+                name += part.value;
+            }
+            name = name.trim();
+            if (name.length > 0) names.add(name);
+        },
+    });
+    return names;
+}
@@ -0,0 +1 @@
+export { renderReadable, toReadable } from "./lib/node/readable.js";
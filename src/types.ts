@@ -1,3 +1,5 @@
+import type { SafeString } from "./lib/compiler/SafeString.js";
+
 /**
  * Position in source input (1-based line/column, 0-based offset).
  */
@@ -22,6 +24,9 @@ export const TokenKind = {
     Colon: "Colon",
     Pipe: "Pipe",
     Escape: "Escape",
+    Comment: "Comment",
+    /** Filter-chain operator. Made by the parser from Text, never by the Lexer. */
+    Filter: "Filter",
     EOF: "EOF",
 } as const;
 
@@ -31,6 +36,16 @@ export interface Token {
     readonly kind: TokenKind;
     readonly value: string;
     readonly span: Span;
+    /**
+     * Set on Text tokens read verbatim from a quoted literal or a raw region;
+     * the span includes the quotes or markers.
+     */
+    readonly quoted?: boolean;
+    /**
+     * Set on TagStart/TagEnd tokens written with a trim marker (`{- `, ` -}`);
+     * the value and span include the marker and its whitespace.
+     */
+    readonly trim?: boolean;
 }
 
 export const NodeKind = {
@@ -38,6 +53,8 @@ export const NodeKind = {
     Variable: "Variable",
     Tag: "Tag",
     Argument: "Argument",
+    Comment: "Comment",
+    Expression: "Expression",
 } as const;
 
 export type NodeKind = (typeof NodeKind)[keyof typeof NodeKind];
@@ -66,15 +83,166 @@ export interface ArgumentNode {
  *
  * Variables and tags share the {name} grammar but split on `:`.
  * Variables = no args. Tags = name + args.
+ *
+ * `key=value` arguments land in `named` (absent when there are none), keyed
+ * by name; their span covers the whole `key=value`.
  */
 export interface TagNode {
     readonly kind: typeof NodeKind.Tag;
     readonly name: string;
     readonly args: readonly ArgumentNode[];
+    readonly named?: Readonly<Record<string, ArgumentNode>>;
+    readonly span: Span;
+}
+
+/**
+ * A `{# ... #}` comment, kept only with ParserOptions.keepComments. `value`
+ * is the text between the markers; comments render as nothing.
+ */
+export interface CommentNode {
+    readonly kind: typeof NodeKind.Comment;
+    readonly value: string;
+    readonly span: Span;
+}
+
+/**
+ * A condition such as `level >= 10 && premium`, parsed from the first
+ * argument of an expression tag (ParserOptions.expressionTags). `source` is
+ * the argument's text. Renders as its value, usually "true" or "false".
+ */
+export interface ExpressionNode {
+    readonly kind: typeof NodeKind.Expression;
+    readonly expression: Expr;
+    readonly source: string;
+    readonly span: Span;
+}
+
+export type TemplateNode =
+    | TextNode
+    | VariableNode
+    | TagNode
+    | CommentNode
+    | ExpressionNode;
+
+export const ExprKind = {
+    Literal: "Literal",
+    Identifier: "Identifier",
+    Unary: "Unary",
+    Binary: "Binary",
+    Logical: "Logical",
+} as const;
+
+export type ExprKind = (typeof ExprKind)[keyof typeof ExprKind];
+
+/** `10`, `-2.5`, `"text"`, `'text'`, `true`, `false` or `null`. */
+export interface LiteralExpr {
+    readonly kind: typeof ExprKind.Literal;
+    readonly value: string | number | boolean | null;
+    readonly span: Span;
+}
+
+/** A variable reference, dotted paths included: `user.level`. */
+export interface IdentifierExpr {
+    readonly kind: typeof ExprKind.Identifier;
+    readonly name: string;
+    readonly span: Span;
+}
+
+/** `!x` or `not x`. */
+export interface UnaryExpr {
+    readonly kind: typeof ExprKind.Unary;
+    readonly operator: "!";
+    readonly argument: Expr;
+    readonly span: Span;
+}
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export interface BinaryExpr {
+    readonly kind: typeof ExprKind.Binary;
+    readonly operator: ComparisonOperator;
+    readonly left: Expr;
+    readonly right: Expr;
+    readonly span: Span;
+}
+
+/** `&&`/`and` and `or`. Both short-circuit. */
+export interface LogicalExpr {
+    readonly kind: typeof ExprKind.Logical;
+    readonly operator: "&&" | "||";
+    readonly left: Expr;
+    readonly right: Expr;
+    readonly span: Span;
+}
+
+export type Expr =
+    | LiteralExpr
+    | IdentifierExpr
+    | UnaryExpr
+    | BinaryExpr
+    | LogicalExpr;
+
+/**
+ * Kinds of the lossless concrete syntax tree (ParserOptions.cst). They differ
+ * from NodeKind so CST and AST nodes can be told apart.
+ */
+export const CstKind = {
+    Text: "CstText",
+    Escape: "CstEscape",
+    Comment: "CstComment",
+    Tag: "CstTag",
+    Argument: "CstArgument",
+} as const;
+
+export type CstKind = (typeof CstKind)[keyof typeof CstKind];
+
+/** Text as written: a plain run, a quoted literal or a raw region. */
+export interface CstText {
+    readonly kind: typeof CstKind.Text;
+    readonly text: string;
+    readonly span: Span;
+}
+
+/** An escape sequence such as `\{`; `char` is the character it stands for. */
+export interface CstEscape {
+    readonly kind: typeof CstKind.Escape;
+    readonly char: string;
+    readonly text: string;
     readonly span: Span;
 }
 
-export type TemplateNode = TextNode | VariableNode | TagNode;
+/** A `{# ... #}` comment, markers included. */
+export interface CstComment {
+    readonly kind: typeof CstKind.Comment;
+    readonly text: string;
+    readonly span: Span;
+}
+
+/**
+ * Everything between a tag start and its tag end, as written. `open` and
+ * `close` hold the delimiters with any trim marker and its whitespace;
+ * `close` is absent when the tag is never closed. `name` is what comes before
+ * the first `:` or `|`, so a variable is a tag without arguments. Block
+ * markers (`{#if x}`, `{:else}`, `{/if}`) and filter chains stay as written.
+ */
+export interface CstTag {
+    readonly kind: typeof CstKind.Tag;
+    readonly open: string;
+    readonly name: readonly CstNode[];
+    readonly args: readonly CstArgument[];
+    readonly close?: string;
+    readonly span: Span;
+}
+
+/** One argument of a CstTag with the `:` or `|` before it. */
+export interface CstArgument {
+    readonly kind: typeof CstKind.Argument;
+    readonly separator: ":" | "|";
+    readonly nodes: readonly CstNode[];
+    readonly span: Span;
+}
+
+export type CstNode = CstText | CstEscape | CstComment | CstTag;
 
 /**
  * Compiled template — parse result you render against data.
@@ -82,6 +250,20 @@ export type TemplateNode = TextNode | VariableNode | TagNode;
 export interface CompiledTemplate {
     readonly nodes: readonly TemplateNode[];
     readonly source: string;
+    /** The template's `{define}` macros by name; absent when there are none. */
+    readonly macros?: Readonly<Record<string, MacroDefinition>>;
+}
+
+/**
+ * A macro from `{define:name|param|...|body}`. Inside its template,
+ * `{name:a|b}` renders `body` with the params bound to the arguments as
+ * locals, unless a registered tag has the same name.
+ */
+export interface MacroDefinition {
+    readonly name: string;
+    readonly params: readonly string[];
+    readonly body: readonly TemplateNode[];
+    readonly span: Span;
 }
 
 export interface ParseDiagnostic {
@@ -94,6 +276,8 @@ export interface ParseDiagnostic {
 export interface ParseResult {
     readonly template: CompiledTemplate;
     readonly diagnostics: readonly ParseDiagnostic[];
+    /** The lossless syntax tree, with ParserOptions.cst. */
+    readonly cst?: readonly CstNode[];
 }
 
 export interface LexerOptions {
@@ -103,6 +287,24 @@ export interface LexerOptions {
     readonly tagEnd?: string;
     /** Default: "\\" — character that escapes the next delimiter */
     readonly escapeChar?: string;
+    /**
+     * Characters that open a quoted literal inside a tag, e.g. `"'`. Up to
+     * the matching closing quote, delimiters, `:` and `|` are plain text;
+     * the escape character still works. Default: "" (no quoting).
+     */
+    readonly quotes?: string;
+    /**
+     * Name of the verbatim region, e.g. "raw" for `{raw}...{/raw}`:
+     * everything between the markers is text, with no tags, escapes or
+     * trimming. Default: false (no verbatim regions).
+     */
+    readonly rawTag?: string | false;
+    /**
+     * Yield escape sequences as Escape tokens, whose value is the escaped
+     * character and whose span covers the escape character too, instead of
+     * Text. For lossless tooling; parse() expects Text. Default: false.
+     */
+    readonly keepEscapes?: boolean;
 }
 
 export interface ParserOptions extends LexerOptions {
@@ -116,23 +318,70 @@ export interface ParserOptions extends LexerOptions {
      * Default: 32.
      */
     readonly maxDepth?: number;
+    /**
+     * Keep `{# ... #}` comments in the AST as CommentNodes (for formatters and
+     * other tooling) instead of dropping them. Default: false.
+     */
+    readonly keepComments?: boolean;
+    /**
+     * Remove lines holding nothing but a block marker (`{#if ...}`,
+     * `{:else}`, `{/if}`) and whitespace, including their line break, so
+     * blocks leave no blank lines. Default: false.
+     */
+    readonly trimBlocks?: boolean;
+    /**
+     * Operator for filter chains: `{name >> trim >> default:{user}}` parses as
+     * `{default:{trim:{name}}|{user}}`. A tag is a chain when the text before
+     * its first `:` contains the operator. Default: false (no chains).
+     */
+    readonly filterOperator?: string | false;
+    /**
+     * Tags whose first argument is an expression, such as
+     * `{if:level >= 10 && premium|...}`. The argument is parsed as one when it
+     * is plain text containing an operator; otherwise it stays text. Pass
+     * `["if", "unless"]` to turn expressions on for the built-in conditions.
+     * Default: [] (no expressions).
+     */
+    readonly expressionTags?: readonly string[];
+    /**
+     * Read top-level `{define:name|param|...|body}` tags as macro definitions
+     * and calls of those names as macro calls. Off, `{define}` is an ordinary
+     * tag. Default: false.
+     */
+    readonly macros?: boolean;
+    /**
+     * Layout sources by name, for `{extends:name}`. A child template's
+     * top-level `{slot:name|content}` tags fill the layout's `{slot}`s and
+     * the layout's nodes become the template's; unfilled slots keep their
+     * default content. Resolved at parse time.
+     */
+    readonly layouts?: Readonly<Record<string, string>>;
+    /**
+     * Also return a lossless concrete syntax tree as ParseResult.cst: every
+     * delimiter, escape, comment and whitespace of the input, which print()
+     * turns back into the exact input. Default: false.
+     */
+    readonly cst?: boolean;
 }
 
 /**
- * Tag handler — receives evaluated argument strings plus the runtime context,
- * returns the value to splice into output.
+ * Tag handler — receives evaluated argument strings plus the runtime context
+ * and any `key=value` arguments, returns the value to splice into output.
  *
  * Returning undefined or null produces empty string. Booleans/numbers stringify.
+ * A SafeString is spliced in as-is even when auto-escaping is on.
  */
 export type TagHandler<Ctx = unknown> = (
     args: readonly string[],
     ctx: RenderContext<Ctx>,
-) => string | number | boolean | null | undefined;
+    named: Readonly<Record<string, string>>,
+) => string | SafeString | number | boolean | null | undefined;
 
 export type AsyncTagHandler<Ctx = unknown> = (
     args: readonly string[],
     ctx: RenderContext<Ctx>,
-) => Awaitable<string | number | boolean | null | undefined>;
+    named: Readonly<Record<string, string>>,
+) => Awaitable<string | SafeString | number | boolean | null | undefined>;
 
 /**
  * Variable resolver — looks up a variable name and returns its value.
@@ -150,6 +399,35 @@ export type AsyncVariableResolver<Ctx = unknown> = (
     ctx: RenderContext<Ctx>,
 ) => Awaitable<string | number | boolean | bigint | object | null | undefined>;
 
+/**
+ * Resource budget for a single render. Every limit is optional; exceeding one
+ * fails the render with a RenderLimitError naming it.
+ */
+export interface RenderLimits {
+    /**
+     * Maximum output length in code points. Checked as output accumulates, so
+     * an oversized intermediate result (e.g. a huge `{each}` list) fails too.
+     */
+    readonly maxOutputLength?: number;
+    /** Maximum number of tag handler invocations across the whole render. */
+    readonly maxTagCalls?: number;
+    /**
+     * Maximum number of loop iterations across the whole render — structural
+     * `render(arg, locals)` calls, i.e. one per `{each}` item.
+     */
+    readonly maxIterations?: number;
+    /**
+     * Wall-clock budget in milliseconds, checked before every node. Unlike
+     * renderAsync's `timeoutMs` it cannot interrupt a tag that is still
+     * running, but it works in the sync renderer too.
+     */
+    readonly maxTimeMs?: number;
+    /** Maximum render nesting depth. Default: 64. */
+    readonly maxDepth?: number;
+    /** Maximum number of `{include}`s rendering inside each other. Default: 10. */
+    readonly maxIncludeDepth?: number;
+}
+
 export interface RenderContext<Ctx = unknown> {
     /** User-provided data bag. */
     readonly data: Ctx;
@@ -157,6 +435,44 @@ export interface RenderContext<Ctx = unknown> {
     readonly locals: ReadonlyMap<string, unknown>;
     /** Current nesting depth (for diagnostics, recursion limits). */
     readonly depth: number;
+    /**
+     * Set by renderAsync() when a `signal` or `timeoutMs` is given. Async tags
+     * and resolvers should forward it to their own I/O (e.g. `fetch`).
+     */
+    readonly signal?: AbortSignal;
+    /**
+     * The escaper applied to values at this point of the output, when the
+     * `escape` option is on. Absent inside plain tags' arguments and {raw}.
+     * Tags that build markup around untrusted text can use it directly.
+     */
+    readonly escape?: (value: string) => string;
+    /**
+     * Names of the partials being rendered around this point, outermost
+     * first. Absent outside `{include}`.
+     */
+    readonly partials?: readonly string[];
+    /**
+     * Names of the macros being rendered around this point, outermost first.
+     * Absent outside macros.
+     */
+    readonly macros?: readonly string[];
 }
 
+/** A partial: a parsed template, or anything holding one such as a Template. */
+export type PartialTemplate =
+    | CompiledTemplate
+    | { readonly compiled: CompiledTemplate };
+
+/**
+ * Where `{include:name}` finds partials: a record by name, or a loader called
+ * for every include. Return undefined for an unknown name. The sync renderers
+ * reject a loader that returns a promise.
+ */
+export type PartialSource<Ctx = unknown> =
+    | Readonly<Record<string, PartialTemplate>>
+    | ((
+          name: string,
+          ctx: RenderContext<Ctx>,
+      ) => Awaitable<PartialTemplate | undefined>);
+
 export type Awaitable<T> = T | Promise<T>;
@@ -19,17 +19,46 @@ for (const size of [1_000, 10_000, 50_000, 100_000, 500_000]) {
     );
 }
 
-console.log("\n─── Compile-once render-many ───");
+console.log(
+    "\n─── Compile-once render-many: render() vs compileToFunction() ───",
+);
 const tpl = Template.compile("{if:{premium}|⭐ {upper:{user}}|{user}}");
+const fn = tpl.compileToFunction();
 const N = 100_000;
-const t0 = performance.now();
-for (let i = 0; i < N; i++) {
-    tpl.render({
-        variables: { user: "Alice", premium: i % 2 === 0 ? "true" : "" },
-        tags: builtinTags,
-    });
+const ROUNDS = 5;
+
+const options = (i: number) => ({
+    variables: { user: "Alice", premium: i % 2 === 0 ? "true" : "" },
+    tags: builtinTags,
+});
+
+/** Time N renders. */
+function time(renderOnce: (i: number) => unknown): number {
+    const t0 = performance.now();
+    for (let i = 0; i < N; i++) renderOnce(i);
+    return performance.now() - t0;
 }
-const elapsed = performance.now() - t0;
-console.log(
-    `${N.toLocaleString()} renders in ${elapsed.toFixed(0)}ms = ${((N / elapsed) * 1000).toFixed(0)} renders/sec`,
-);
+
+// Alternate the two and keep each one's best round, so JIT warm-up and GC
+// left over from the other loop do not decide the comparison.
+let elapsed = Number.POSITIVE_INFINITY;
+let elapsedFn = Number.POSITIVE_INFINITY;
+for (let round = 0; round < ROUNDS; round++) {
+    elapsed = Math.min(
+        elapsed,
+        time((i) => tpl.render(options(i))),
+    );
+    elapsedFn = Math.min(
+        elapsedFn,
+        time((i) => fn(options(i))),
+    );
+}
+for (const [label, ms] of [
+    ["render()", elapsed],
+    ["compileToFunction()", elapsedFn],
+] as const) {
+    console.log(
+        `${label.padEnd(20)} ${N.toLocaleString()} renders in ${ms.toFixed(0)}ms = ${((N / ms) * 1000).toFixed(0)} renders/sec`,
+    );
+}
+console.log(`compiled is ${(elapsed / elapsedFn).toFixed(2)}x as fast`);
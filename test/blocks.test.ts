@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { NodeKind, type TagNode } from "../src/types.js";
+
+/** Strip spans so block and inline forms can be compared structurally. */
+function shape(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(shape);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([k]) => k !== "span")
+                .map(([k, v]) => [k, shape(v)]),
+        );
+    }
+    return value;
+}
+
+function run(source: string, variables: Record<string, unknown>): string {
+    return render(parse(source).template, { variables, tags: builtinTags });
+}
+
+describe("block syntax", () => {
+    it("lowers {#if} to the inline TagNode", () => {
+        const block = parse("{#if {ok}}yes{:else}no{/if}");
+        const inline = parse("{if:{ok}|yes|no}");
+        expect(block.diagnostics).toEqual([]);
+        expect(shape(block.template.nodes)).toEqual(
+            shape(inline.template.nodes),
+        );
+    });
+
+    it("lowers {#each} with header arguments", () => {
+        const block = parse("{#each {xs}|sep=, }<{it}>{/each}");
+        const inline = parse("{each:{xs}|<{it}>|sep=, }");
+        expect(block.diagnostics).toEqual([]);
+        expect(shape(block.template.nodes)).toEqual(
+            shape(inline.template.nodes),
+        );
+    });
+
+    it("renders multi-line bodies with pipes", () => {
+        const source = [
+            "{#if {vip}}",
+            "VIP | {name}",
+            "{:else}",
+            "guest",
+            "{/if}",
+        ].join("\n");
+        expect(run(source, { vip: "1", name: "Ada" })).toBe("\nVIP | Ada\n");
+        expect(run(source, { vip: "" })).toBe("\nguest\n");
+    });
+
+    it("nests blocks and inline tags", () => {
+        const source =
+            "{#each {xs}}{#if {eq:{it}|b}}[{upper:{it}}]{:else}{it}{/if}{/each}";
+        expect(run(source, { xs: ["a", "b"] })).toBe("a[B]");
+    });
+
+    it("works inside tag arguments", () => {
+        expect(run("{upper:{#if {ok}}a|b{/if}}", { ok: "1" })).toBe("A|B");
+    });
+
+    it("spans cover the whole block", () => {
+        const { template } = parse("x{#if a}b{/if}y");
+        const tag = template.nodes[1] as TagNode;
+        expect(tag.kind).toBe(NodeKind.Tag);
+        expect(tag.span.start.offset).toBe(1);
+        expect(tag.span.end.offset).toBe(14);
+        expect(tag.args[0]?.nodes).toMatchObject([
+            { value: "a", span: { start: { offset: 6 } } },
+        ]);
+        expect(tag.args[1]?.span.start.offset).toBe(8);
+        expect(tag.args[1]?.span.end.offset).toBe(9);
+    });
+
+    it("reports unclosed blocks at the opening tag", () => {
+        const { template, diagnostics } = parse("{#if a}b");
+        expect(diagnostics).toMatchObject([
+            {
+                severity: "error",
+                message: "Unclosed block '#if'",
+                span: { start: { offset: 0 }, end: { offset: 7 } },
+                hint: "Expected '{/if}' to close the block.",
+            },
+        ]);
+        expect(template.nodes[0]).toMatchObject({ name: "if" });
+    });
+
+    it("reports mismatched block ends", () => {
+        const { diagnostics } = parse("{#if a}b{/each}");
+        expect(diagnostics).toMatchObject([
+            {
+                severity: "error",
+                message: "Mismatched block end '{/each}'",
+                span: { start: { offset: 8 }, end: { offset: 15 } },
+            },
+        ]);
+    });
+
+    it("reports stray markers and keeps them as text", () => {
+        const { template, diagnostics } = parse("a{/if}b{:else}c");
+        expect(diagnostics.map((d) => d.message)).toEqual([
+            "Unexpected '{/if}' outside a block",
+            "Unexpected '{:else}' outside a block",
+        ]);
+        expect(template.nodes).toMatchObject([{ value: "a{/if}b{:else}c" }]);
+    });
+
+    it("throws in strict mode", () => {
+        expect(() => parse("{#each x}", { strict: true })).toThrow();
+    });
+
+    it("leaves a bare '#' name alone", () => {
+        const { template, diagnostics } = parse("{#}");
+        expect(diagnostics).toEqual([]);
+        expect(template.nodes[0]).toMatchObject({
+            kind: NodeKind.Variable,
+            name: "#",
+        });
+    });
+});
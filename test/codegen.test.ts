@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { defineStructuralTag, render } from "../src/lib/compiler/Render.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { RenderError, RenderLimitError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import type { TagHandler } from "../src/types.js";
+
+describe("compileToFunction", () => {
+    const cases: [string, Record<string, unknown>][] = [
+        ["plain text", {}],
+        ["Hello {user}!", { user: "Alice" }],
+        [
+            "{if:{premium}|⭐ {upper:{user}}|{user}}",
+            { premium: "1", user: "a" },
+        ],
+        ["{if:{premium}|⭐ {upper:{user}}|{user}}", { premium: "", user: "a" }],
+        ["{each:{xs}|{idx1}:{it}|;}", { xs: [10, 20] }],
+        ["{each:1,2|{each:a,b|{idx}{it}|}}", {}],
+        ["{default:{name}|stranger}", {}],
+        ["{obj}", { obj: { a: 1 } }],
+        ["", {}],
+    ];
+
+    for (const [source, variables] of cases) {
+        it(`matches render() for ${JSON.stringify(source)}`, () => {
+            const { template } = parse(source);
+            const fn = compileToFunction(template);
+            const options = { variables, tags: builtinTags };
+            expect(fn(options)).toBe(render(template, options));
+        });
+    }
+
+    it("is reusable across calls with different data", () => {
+        const fn = Template.compile("Hi {user}").compileToFunction();
+        expect(fn({ variables: { user: "A" } })).toBe("Hi A");
+        expect(fn({ variables: { user: "B" } })).toBe("Hi B");
+    });
+
+    it("honours onMissingVariable and onMissingTag", () => {
+        const fn = Template.compile("{x}|{nope:{y}|z}").compileToFunction();
+        expect(
+            fn({
+                onMissingVariable: (n) => `<${n}>`,
+                onMissingTag: (n, args) => `${n}(${args.join(",")})`,
+            }),
+        ).toBe("<x>|nope(<y>,z)");
+    });
+
+    it("does NOT evaluate the unused branch of {if}", () => {
+        let called = false;
+        const fn = Template.compile(
+            "{if:true|safe|{boom}}",
+        ).compileToFunction();
+        fn({
+            variables: () => {
+                called = true;
+                return "x";
+            },
+            tags: builtinTags,
+        });
+        expect(called).toBe(false);
+    });
+
+    it("passes the same depth to handlers as render()", () => {
+        const seen: number[] = [];
+        const probe = defineStructuralTag((args, ctx, r) => {
+            seen.push(ctx.depth);
+            return args[0] ? r(args[0]) : "";
+        });
+        const { template } = parse("{p:{p:x}}");
+        const options = { tags: { p: probe } };
+        const expected = render(template, options);
+        const viaRender = [...seen];
+        seen.length = 0;
+        expect(compileToFunction(template)(options)).toBe(expected);
+        expect(seen).toEqual(viaRender);
+    });
+
+    it("switches between limited and unlimited renders", () => {
+        const fn = Template.compile("{upper:a}{upper:b}").compileToFunction();
+        const options = { tags: builtinTags };
+        expect(fn(options)).toBe("AB");
+        expect(() => fn({ ...options, limits: { maxTagCalls: 1 } })).toThrow(
+            RenderLimitError,
+        );
+        expect(fn(options)).toBe("AB");
+    });
+
+    it("keeps the default depth limit for deeply nested templates", () => {
+        const source = `${"{upper:".repeat(70)}x${"}".repeat(70)}`;
+        const { template } = parse(source, { maxDepth: 100 });
+        const options = { tags: builtinTags };
+        expect(() => render(template, options)).toThrow(RenderLimitError);
+        expect(() => compileToFunction(template)(options)).toThrow(
+            RenderLimitError,
+        );
+    });
+
+    it("sees a tag handler replaced between calls", () => {
+        const fn = Template.compile("{t:x}|{y}").compileToFunction();
+        const tags: Record<string, TagHandler> = { t: () => "1" };
+        expect(fn({ tags })).toBe("1|");
+        tags.t = ([x]) => `2${x}`;
+        expect(fn({ tags, variables: { y: "z" } })).toBe("2x|z");
+        delete tags.t;
+        expect(fn({ tags, onMissingTag: (name) => `<${name}>` })).toBe("<t>|");
+    });
+
+    it("wraps throwing tags in RenderError with the tag's span", () => {
+        const fn = Template.compile("a {bad:x}").compileToFunction();
+        let error: unknown;
+        try {
+            fn({
+                tags: {
+                    bad: () => {
+                        throw new Error("nope");
+                    },
+                },
+            });
+        } catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(RenderError);
+        expect((error as RenderError).tagName).toBe("bad");
+        expect((error as RenderError).span?.start.offset).toBe(2);
+    });
+
+    it("rejects async tags like render()", () => {
+        const fn = Template.compile("{slow:x}").compileToFunction();
+        expect(() => fn({ tags: { slow: async () => "x" } })).toThrow(
+            /renderAsync/,
+        );
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
+import { Lexer } from "../src/lib/lexer/Lexer.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { walk } from "../src/lib/visitor/Visitor.js";
+import { NodeKind, TokenKind } from "../src/types.js";
+
+describe("comments", () => {
+    it("lex as one token with the markers", () => {
+        const tokens = [...new Lexer("a{# {x} | y #}b")];
+        expect(tokens.map((t) => t.kind)).toEqual([
+            TokenKind.Text,
+            TokenKind.Comment,
+            TokenKind.Text,
+            TokenKind.EOF,
+        ]);
+        expect(tokens[1]?.value).toBe("{# {x} | y #}");
+        expect(tokens[1]?.span.end.offset).toBe(14);
+    });
+
+    it("are dropped, merging the text around them", () => {
+        const { template, diagnostics } = parse(
+            "Hi {# greet #}{name}!{#\nnote\n#}",
+        );
+        expect(diagnostics).toEqual([]);
+        expect(template.nodes.map((n) => n.kind)).toEqual([
+            NodeKind.Text,
+            NodeKind.Variable,
+            NodeKind.Text,
+        ]);
+        expect(render(template, { variables: { name: "Ada" } })).toBe(
+            "Hi Ada!",
+        );
+        expect(parse("a{# x #}b").template.nodes).toMatchObject([
+            { value: "ab" },
+        ]);
+    });
+
+    it("work inside tags and blocks", () => {
+        const { template } = parse(
+            "{upper:a{# x #}b}{#if {ok}}{# y #}yes{/if}",
+        );
+        expect(
+            render(template, {
+                variables: { ok: "1" },
+                tags: {
+                    upper: (args) => (args[0] ?? "").toUpperCase(),
+                    if: (args) => args[1] ?? "",
+                },
+            }),
+        ).toBe("AByes");
+    });
+
+    it("are kept as nodes with keepComments", () => {
+        const { template } = parse("a{# note #}b", { keepComments: true });
+        expect(template.nodes).toMatchObject([
+            { kind: NodeKind.Text, value: "a" },
+            {
+                kind: NodeKind.Comment,
+                value: " note ",
+                span: { start: { offset: 1 }, end: { offset: 11 } },
+            },
+            { kind: NodeKind.Text, value: "b" },
+        ]);
+        expect(render(template)).toBe("ab");
+
+        const seen: string[] = [];
+        walk(template.nodes, {
+            visitComment(node) {
+                seen.push(node.value);
+            },
+        });
+        expect(seen).toEqual([" note "]);
+    });
+
+    it("report an unterminated comment at its opening", () => {
+        const { template, diagnostics } = parse("a{# note");
+        expect(diagnostics).toMatchObject([
+            {
+                severity: "error",
+                message: "Unclosed comment",
+                span: { start: { offset: 1 }, end: { offset: 3 } },
+                hint: "Expected '#}' to close the comment.",
+            },
+        ]);
+        expect(template.nodes).toMatchObject([{ value: "a{# note" }]);
+        expect(() => parse("{# x", { strict: true })).toThrow();
+    });
+
+    it("follow custom delimiters", () => {
+        const { template } = parse("a<%# x #%>b", {
+            tagStart: "<%",
+            tagEnd: "%>",
+        });
+        expect(template.nodes).toMatchObject([{ value: "ab" }]);
+    });
+
+    it("can be escaped", () => {
+        const { template } = parse("\\{# x #}");
+        expect(template.nodes).toMatchObject([{ value: "{# x #}" }]);
+    });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import {
+    defineFormattingTag,
+    SafeString,
+} from "../src/lib/compiler/SafeString.js";
+import { discordTags } from "../src/lib/discord/discord.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+
+const tags = { ...builtinTags, ...discordTags };
+
+function run(source: string, variables: Record<string, unknown>): string {
+    const { template } = parse(source);
+    return render(template, { variables, tags, escape: "discord" });
+}
+
+describe("auto-escaping", () => {
+    it("escapes variables but not template text", () => {
+        expect(run("**Hi** {name}", { name: "*@everyone*" })).toBe(
+            "**Hi** \\*@\u200Beveryone\\*",
+        );
+    });
+
+    it("is off by default", () => {
+        const { template } = parse("{name}");
+        expect(render(template, { variables: { name: "*x*" } })).toBe("*x*");
+        expect(
+            render(template, { variables: { name: "*x*" }, escape: "none" }),
+        ).toBe("*x*");
+    });
+
+    it("supports html, markdown and custom escapers", () => {
+        const { template } = parse("{v}");
+        const variables = { v: "<b>*@here*</b>" };
+        expect(render(template, { variables, escape: "html" })).toBe(
+            "&lt;b&gt;*@here*&lt;/b&gt;",
+        );
+        expect(render(template, { variables, escape: "markdown" })).toBe(
+            "<b\\>\\*@here\\*</b\\>",
+        );
+        expect(
+            render(template, { variables, escape: (s) => s.toUpperCase() }),
+        ).toBe("<B>*@HERE*</B>");
+    });
+
+    it("rejects an unknown mode", () => {
+        const { template } = parse("x");
+        expect(() =>
+            render(template, { escape: "xml" as unknown as "html" }),
+        ).toThrow(/escape mode 'xml'/);
+    });
+
+    it("escapes plain tag results once, after the tag sees the raw value", () => {
+        expect(run("{upper:{name}}", { name: "a_b" })).toBe("A\\_B");
+        expect(run("{if:{eq:{name}|a_b}|yes|no}", { name: "a_b" })).toBe("yes");
+    });
+
+    it("lets formatting tags wrap escaped text", () => {
+        expect(run("{bold:{name}}", { name: "*x*" })).toBe("**\\*x\\***");
+        expect(run("{bold:{italic:{name}}}", { name: "_" })).toBe("***\\_***");
+        expect(run("{mention:{id}}", { id: "123456789012345678" })).toBe(
+            "<@123456789012345678>",
+        );
+    });
+
+    it("does not double-escape {escape:...}", () => {
+        expect(run("{escape:{name}}", { name: "*" })).toBe("\\*");
+    });
+
+    it("leaves code unescaped", () => {
+        expect(run("{code:{src}}", { src: "a*b" })).toBe("`a*b`");
+    });
+
+    it("escapes Discord-only tag output under other escapers", () => {
+        const { template } = parse("{code:{n}} {escape:{n}} {codeblock:{n}}");
+        expect(
+            render(template, {
+                variables: { n: "<i>" },
+                tags,
+                escape: "html",
+            }),
+        ).toBe("`&lt;i&gt;` &lt;i\\&gt; ```\n&lt;i&gt;\n```");
+    });
+
+    it("escapes emoji whose names would smuggle markup", () => {
+        const id = "123456789012345678";
+        expect(
+            run("{animEmoji:{n}|{id}}", { n: "x>@everyone **b**", id }),
+        ).toBe(`<a:x\\>@\u200Beveryone \\*\\*b\\*\\*:${id}\\>`);
+        expect(run("{emoji:{n}|{id}}", { n: "<@1>", id })).toBe(
+            `<:<@1\\>:${id}\\>`,
+        );
+        expect(run("{animEmoji:{n}|{id}}", { n: "wave", id })).toBe(
+            `<a:wave:${id}>`,
+        );
+    });
+
+    it("passes SafeString values through", () => {
+        expect(run("{v}", { v: new SafeString("**ok**") })).toBe("**ok**");
+        const { template } = parse("{link:{url}}");
+        const link = (args: readonly string[]) =>
+            new SafeString(`[here](${encodeURI(args[0] ?? "")})`);
+        expect(
+            render(template, {
+                variables: { url: "https://x.test/a b" },
+                tags: { link },
+                escape: "discord",
+            }),
+        ).toBe("[here](https://x.test/a%20b)");
+    });
+
+    it("opts out with {raw:...}", () => {
+        expect(run("{raw:{name}} {name}", { name: "*x*" })).toBe("*x* \\*x\\*");
+    });
+
+    it("escapes {each} items but parses the list unescaped", () => {
+        const { template } = parse("{each:{xs}|<{it}>|,}");
+        expect(
+            render(template, {
+                variables: { xs: ['"a"', "<b>"] },
+                tags: builtinTags,
+                escape: "html",
+            }),
+        ).toBe("<&quot;a&quot;>,<&lt;b&gt;>");
+    });
+
+    it("exposes the escaper to tags as ctx.escape", () => {
+        const { template } = parse("{tag:x} {upper:{tag:x}}");
+        const tag = defineFormattingTag(
+            (_args, ctx) => new SafeString(ctx.escape ? "on" : "off"),
+        );
+        expect(
+            render(template, {
+                tags: { ...builtinTags, tag },
+                escape: "html",
+            }),
+        ).toBe("on OFF");
+    });
+
+    it("applies to compiled functions and renderAsync", async () => {
+        const { template } = parse("{bold:{name}}{upper:{name}}");
+        const options = {
+            variables: { name: "<i>" },
+            tags,
+            escape: "html",
+        } as const;
+        const expected = "**&lt;i&gt;**&lt;I&gt;";
+        expect(compileToFunction(template)(options)).toBe(expected);
+        expect(await renderAsync(template, options)).toBe(expected);
+        expect(
+            await renderAsync(template, {
+                ...options,
+                tags: {
+                    ...tags,
+                    upper: async (args: readonly string[]) =>
+                        (args[0] ?? "").toUpperCase(),
+                },
+            }),
+        ).toBe(expected);
+    });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { collectVariableNames } from "../src/lib/visitor/Visitor.js";
+import {
+    type ExpressionNode,
+    ExprKind,
+    NodeKind,
+    type TagNode,
+} from "../src/types.js";
+
+/** Expressions are opt-in; these tests turn them on for the built-ins. */
+const conditions = { expressionTags: ["if", "unless"] };
+
+function condition(source: string): ExpressionNode {
+    const tag = parse(source, conditions).template.nodes[0] as TagNode;
+    const node = tag.args[0]?.nodes[0];
+    if (node?.kind !== NodeKind.Expression) throw new Error("no expression");
+    return node;
+}
+
+function run(source: string, variables: Record<string, unknown>): string {
+    return render(parse(source, conditions).template, {
+        variables,
+        tags: builtinTags,
+    });
+}
+
+describe("expressions: parsing", () => {
+    it("parses the first argument of {if} into an expression", () => {
+        const node = condition("{if:level >= 10 && premium|yes}");
+        expect(node.source).toBe("level >= 10 && premium");
+        expect(node.span.start.offset).toBe(4);
+        expect(node.span.end.offset).toBe(26);
+        expect(node.expression).toMatchObject({
+            kind: ExprKind.Logical,
+            operator: "&&",
+            left: {
+                kind: ExprKind.Binary,
+                operator: ">=",
+                left: { kind: ExprKind.Identifier, name: "level" },
+                right: {
+                    kind: ExprKind.Literal,
+                    value: 10,
+                    span: { start: { offset: 13 }, end: { offset: 15 } },
+                },
+            },
+            right: { kind: ExprKind.Identifier, name: "premium" },
+        });
+    });
+
+    it("binds not tighter than and, and tighter than or", () => {
+        const { expression } = condition("{if:not a and b or c|x}");
+        expect(expression).toMatchObject({
+            operator: "||",
+            left: {
+                operator: "&&",
+                left: { kind: ExprKind.Unary, argument: { name: "a" } },
+            },
+            right: { name: "c" },
+        });
+        expect(condition("{if:!(a or b)|x}").expression).toMatchObject({
+            kind: ExprKind.Unary,
+            argument: { operator: "||" },
+        });
+    });
+
+    it("reads literals", () => {
+        const { expression } = condition(
+            `{if:x == "a\\"b" or y != 'c' or z == -1.5 or t == true or n == null|x}`,
+        );
+        const literals: unknown[] = [];
+        const collect = (e: unknown): void => {
+            const node = e as Record<string, unknown>;
+            if (node.kind === ExprKind.Literal) literals.push(node.value);
+            for (const key of ["left", "right"]) {
+                if (node[key]) collect(node[key]);
+            }
+        };
+        collect(expression);
+        expect(literals).toEqual(['a"b', "c", -1.5, true, null]);
+    });
+
+    it("are off unless the tag is listed in expressionTags", () => {
+        const { template, diagnostics } = parse(
+            "{if:rock and roll|yes|no} {if:Hello!|yes|no} {unless:or|x|y}",
+        );
+        expect(diagnostics).toEqual([]);
+        expect(render(template, { tags: builtinTags })).toBe("yes yes y");
+    });
+
+    it("keeps text without operators as text", () => {
+        for (const source of ["{if:x|y}", "{if:true story|y}", "{if:{ok}|y}"]) {
+            const tag = parse(source, conditions).template.nodes[0] as TagNode;
+            expect(tag.args[0]?.nodes[0]?.kind).not.toBe(NodeKind.Expression);
+        }
+    });
+
+    it("works in block headers and custom expression tags", () => {
+        const block = parse("{#if a > 1}x{/if}", conditions).template
+            .nodes[0] as TagNode;
+        expect(block.args[0]?.nodes[0]).toMatchObject({
+            kind: NodeKind.Expression,
+            source: "a > 1",
+        });
+        const custom = parse("{when:a > 1|x}{if:a > 1|x}", {
+            expressionTags: ["when"],
+        }).template.nodes as TagNode[];
+        expect(custom[0]?.args[0]?.nodes[0]?.kind).toBe(NodeKind.Expression);
+        expect(custom[1]?.args[0]?.nodes[0]?.kind).toBe(NodeKind.Text);
+    });
+
+    it("reads quoted strings from the source", () => {
+        const { template } = parse(`{if:name == "a|b"|yes}`, {
+            ...conditions,
+            quotes: '"',
+        });
+        const tag = template.nodes[0] as TagNode;
+        expect(tag.args).toHaveLength(2);
+        expect(tag.args[0]?.nodes[0]).toMatchObject({
+            expression: { right: { value: "a|b" } },
+        });
+    });
+
+    it("reports syntax errors and keeps the argument as text", () => {
+        const cases: [string, string, number][] = [
+            ["{if:level >=|y}", "Unexpected end of expression", 12],
+            ["{if:a < b < c|y}", "Unexpected '<' in expression", 10],
+            ["{if:(a == 1|y}", "Unexpected end of expression", 11],
+            ["{if:a => 1|y}", "Unexpected '=' in expression", 6],
+        ];
+        for (const [source, message, offset] of cases) {
+            const { template, diagnostics } = parse(source, conditions);
+            expect(diagnostics).toMatchObject([
+                { severity: "error", message, span: { start: { offset } } },
+            ]);
+            const tag = template.nodes[0] as TagNode;
+            expect(tag.args[0]?.nodes[0]?.kind).toBe(NodeKind.Text);
+        }
+        expect(() =>
+            parse("{if:a <|y}", { ...conditions, strict: true }),
+        ).toThrow();
+    });
+});
+
+describe("expressions: evaluation", () => {
+    const variables = { level: "12", premium: true, name: "Ada", zero: 0 };
+
+    it.each([
+        ["level >= 10 && premium", "yes"],
+        ["level > 12", "no"],
+        ["level == 12.0", "yes"],
+        ["name == 'Ada' and not zero", "yes"],
+        ['name != "Ada" or level < 5', "no"],
+        ["(level < 5 or premium) && name", "yes"],
+        ["missing == null", "yes"],
+        ["name < 'Bob'", "yes"],
+        ["name < 5", "no"],
+    ])("%s → %s", (condition, expected) => {
+        expect(run(`{if:${condition}|yes|no}`, variables)).toBe(expected);
+    });
+
+    it("short-circuits variable lookups", () => {
+        const seen: string[] = [];
+        const variables = (name: string) => {
+            seen.push(name);
+            return name === "a" ? "" : "1";
+        };
+        const { template } = parse(
+            "{if:a && b|x|y}{if:c or d|x|y}",
+            conditions,
+        );
+        expect(render(template, { variables, tags: builtinTags })).toBe("yx");
+        expect(seen).toEqual(["a", "c"]);
+    });
+
+    it("renders the same in every renderer", async () => {
+        const { template } = parse(
+            "{#if level >= 10 and premium}VIP{:else}guest{/if} {unless:zero > 0|!}",
+            conditions,
+        );
+        const options = { variables, tags: builtinTags };
+        expect(render(template, options)).toBe("VIP !");
+        expect(compileToFunction(template)(options)).toBe("VIP !");
+        expect(await renderAsync(template, options)).toBe("VIP !");
+        expect(
+            await renderAsync(template, {
+                ...options,
+                variables: async (n: string) =>
+                    (variables as Record<string, unknown>)[n],
+            }),
+        ).toBe("VIP !");
+    });
+
+    it("reports missing variables", () => {
+        const { template } = parse("{if:ghost > 1|x}", conditions);
+        const report = render(template, {
+            tags: builtinTags,
+            errorMode: "collect",
+        });
+        expect(report.missingVariables).toMatchObject([
+            { name: "ghost", span: { start: { offset: 4 } } },
+        ]);
+    });
+
+    it("exposes variables to collectVariableNames", () => {
+        const { template } = parse("{if:a > b.c|{d}}", conditions);
+        expect([...collectVariableNames(template.nodes)]).toEqual([
+            "a",
+            "b.c",
+            "d",
+        ]);
+    });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { NodeKind, type ParserOptions, type TagNode } from "../src/types.js";
+
+/** Strip spans so chains and nested forms can be compared structurally. */
+function shape(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(shape);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([k]) => k !== "span")
+                .map(([k, v]) => [k, shape(v)]),
+        );
+    }
+    return value;
+}
+
+const chains = { filterOperator: ">>" } as const;
+
+function run(
+    source: string,
+    variables: Record<string, unknown>,
+    options: ParserOptions = chains,
+): string {
+    return render(parse(source, options).template, {
+        variables,
+        tags: builtinTags,
+    });
+}
+
+describe("filter chains: parsing", () => {
+    it("desugars to nested tags", () => {
+        const chain = parse(
+            "{nick >> default:{user} >> trim >> upper}",
+            chains,
+        );
+        const nested = parse("{upper:{trim:{default:{nick}|{user}}}}", chains);
+        expect(chain.diagnostics).toEqual([]);
+        expect(shape(chain.template.nodes)).toEqual(
+            shape(nested.template.nodes),
+        );
+    });
+
+    it("keeps named arguments on their filter", () => {
+        const chain = parse("{xs >> each:<{it}>|sep=, }", chains);
+        const nested = parse("{each:{xs}|<{it}>|sep=, }", chains);
+        expect(shape(chain.template.nodes)).toEqual(
+            shape(nested.template.nodes),
+        );
+    });
+
+    it("gives every tag a span from the opening delimiter", () => {
+        const { template } = parse("x{a >> f:1 >> g}y", chains);
+        const outer = template.nodes[1] as TagNode;
+        expect(outer.span.start.offset).toBe(1);
+        expect(outer.span.end.offset).toBe(16);
+        const inner = outer.args[0]?.nodes[0] as TagNode;
+        expect(inner).toMatchObject({ name: "f" });
+        expect(inner.span.start.offset).toBe(1);
+        expect(inner.span.end.offset).toBe(10);
+        expect(inner.args[0]?.nodes).toMatchObject([
+            {
+                kind: NodeKind.Variable,
+                name: "a",
+                span: { start: { offset: 2 }, end: { offset: 3 } },
+            },
+        ]);
+        expect(inner.args[1]?.nodes).toMatchObject([
+            { value: "1", span: { start: { offset: 9 } } },
+        ]);
+    });
+
+    it("leaves the operator alone outside chains", () => {
+        const { template } = parse("a >> b {f:x >> y}", chains);
+        expect(template.nodes).toMatchObject([
+            { value: "a >> b " },
+            { name: "f", args: [{ nodes: [{ value: "x >> y" }] }] },
+        ]);
+    });
+
+    it("keeps escaped and quoted operators literal", () => {
+        const { template } = parse("{a >> replace:\\>>|'>>'}", {
+            ...chains,
+            quotes: "'",
+        });
+        const tag = template.nodes[0] as TagNode;
+        expect(tag.args.slice(1).map((a) => shape(a.nodes))).toEqual([
+            [{ kind: NodeKind.Text, value: ">>" }],
+            [{ kind: NodeKind.Text, value: ">>" }],
+        ]);
+    });
+
+    it("chains inside arguments and blocks", () => {
+        expect(run("{if:{ok >> not}|no|yes}", { ok: "" })).toBe("no");
+        expect(
+            run("{#each {xs}}{it >> upper}{/each}", { xs: ["a", "b"] }),
+        ).toBe("AB");
+    });
+
+    it("uses the configured operator and is off by default", () => {
+        expect(run("{n ~> upper}", { n: "a" }, { filterOperator: "~>" })).toBe(
+            "A",
+        );
+        for (const options of [{}, { filterOperator: false } as const]) {
+            const off = parse("{a >> b}", options);
+            expect(off.template.nodes).toMatchObject([
+                { kind: NodeKind.Variable, name: "a >> b" },
+            ]);
+        }
+    });
+
+    it("rejects operators that clash with argument syntax", () => {
+        expect(() => parse("x", { filterOperator: "" })).toThrow();
+        expect(() => parse("x", { filterOperator: "|>" })).toThrow(
+            "filterOperator cannot contain ':' or '|'",
+        );
+    });
+});
+
+describe("filter chains: diagnostics", () => {
+    it("reports a missing value and keeps the tag as text", () => {
+        const { template, diagnostics } = parse("{ >> upper}!", chains);
+        expect(diagnostics).toMatchObject([
+            {
+                severity: "error",
+                message: "Filter chain needs a value before '>>'",
+                span: { start: { offset: 1 }, end: { offset: 5 } },
+            },
+        ]);
+        expect(template.nodes).toMatchObject([{ value: "{ >> upper}!" }]);
+    });
+
+    it("reports a missing filter name", () => {
+        const { diagnostics } = parse("{a >> }", chains);
+        expect(diagnostics).toMatchObject([
+            { severity: "error", message: "Missing filter name after '>>'" },
+        ]);
+    });
+
+    it("reports stray tokens after a filter name", () => {
+        const { template, diagnostics } = parse("{a >> f|x} t", chains);
+        expect(diagnostics).toMatchObject([
+            {
+                message: "Unexpected '|' in filter chain",
+                span: { start: { offset: 7 } },
+                hint: "Filter arguments start with ':'.",
+            },
+        ]);
+        expect(template.nodes).toMatchObject([{ value: "{a >> f|x} t" }]);
+    });
+
+    it("throws in strict mode", () => {
+        expect(() => parse("{a >> }", { ...chains, strict: true })).toThrow();
+    });
+});
+
+describe("filter chains: rendering", () => {
+    it("renders the same in every renderer", async () => {
+        const { template } = parse(
+            "{nick >> default:{user} >> trim >> upper}",
+            chains,
+        );
+        const options = { variables: { user: "  ada " }, tags: builtinTags };
+        expect(render(template, options)).toBe("ADA");
+        expect(compileToFunction(template)(options)).toBe("ADA");
+        expect(await renderAsync(template, options)).toBe("ADA");
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { AggregateParseError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { collectTagNames } from "../src/lib/visitor/Visitor.js";
+
+const layouts = {
+    frame: "<h>{slot:title|Untitled}</h>{slot:body}<f>{slot:footer|bye {name}}</f>",
+    news: "{extends:frame}{#slot title}News: {slot:headline|none}{/slot}",
+};
+
+function messages(source: string, options = { layouts }): string[] {
+    return parse(source, options).diagnostics.map((d) => d.message);
+}
+
+describe("layouts: resolution", () => {
+    it("fills the layout's slots and keeps defaults", () => {
+        const tpl = Template.compile(
+            "{extends:frame}\n{#slot body}Hi {name}{/slot}\n",
+            { layouts },
+        );
+        const options = { variables: { name: "Bo" } };
+        expect(tpl.render(options)).toBe("<h>Untitled</h>Hi Bo<f>bye Bo</f>");
+        expect(compileToFunction(tpl.compiled)(options)).toBe(
+            "<h>Untitled</h>Hi Bo<f>bye Bo</f>",
+        );
+        expect([...tpl.tagNames]).toEqual([]);
+    });
+
+    it("renders an empty fill as nothing", () => {
+        const { template } = parse("{extends:frame}{slot:footer|}", {
+            layouts,
+        });
+        expect(render(template)).toBe("<h>Untitled</h><f></f>");
+    });
+
+    it("resolves layouts that extend layouts", () => {
+        const { template, diagnostics } = parse(
+            "{extends:news}{slot:headline|Launch}{slot:body|text}",
+            { layouts },
+        );
+        expect(diagnostics).toEqual([]);
+        expect(render(template, { variables: { name: "Bo" } })).toBe(
+            "<h>News: Launch</h>text<f>bye Bo</f>",
+        );
+        // A fill from further out replaces the intermediate layout's fill.
+        const override = parse("{extends:news}{slot:title|Own}", { layouts });
+        expect(render(override.template)).toBe("<h>Own</h><f>bye </f>");
+    });
+
+    it("fills slots nested in tag arguments", () => {
+        const { template } = parse("{extends:card}{slot:note|ok}", {
+            layouts: { card: "[{if:{show}|{slot:note}|-}]" },
+        });
+        expect(collectTagNames(template.nodes)).toEqual(new Set(["if"]));
+        expect(
+            render(template, { variables: { show: true }, tags: builtinTags }),
+        ).toBe("[ok]");
+    });
+
+    it("renders slot defaults in templates without {extends}", () => {
+        const { template } = parse(layouts.frame, { layouts });
+        expect(render(template, { variables: { name: "Bo" } })).toBe(
+            "<h>Untitled</h><f>bye Bo</f>",
+        );
+    });
+
+    it("leaves the tags alone without the layouts option", () => {
+        const { template } = parse("{extends:frame}{slot:body|x}");
+        expect(collectTagNames(template.nodes)).toEqual(
+            new Set(["extends", "slot"]),
+        );
+    });
+});
+
+describe("layouts: diagnostics", () => {
+    it("reports fills for slots the layout never defines", () => {
+        const { template, diagnostics } = parse(
+            "{extends:frame}{slot:body|ok}{slot:sidebar|lost}",
+            { layouts },
+        );
+        expect(diagnostics).toMatchObject([
+            {
+                severity: "error",
+                message: "Slot 'sidebar' is not defined by layout 'frame'",
+                span: { start: { offset: 29 } },
+            },
+        ]);
+        expect(render(template)).toBe("<h>Untitled</h>ok<f>bye </f>");
+        expect(() =>
+            parse("{extends:frame}{slot:sidebar|x}", { layouts, strict: true }),
+        ).toThrow(AggregateParseError);
+    });
+
+    it("counts slots declared in an intermediate layout's fills", () => {
+        expect(messages("{extends:news}{slot:headline|x}")).toEqual([]);
+        expect(messages("{extends:frame}{slot:headline|x}")).toEqual([
+            "Slot 'headline' is not defined by layout 'frame'",
+        ]);
+    });
+
+    it("reports unknown, dynamic and cyclic layouts", () => {
+        expect(messages("{extends:ghost}{slot:body|x}")).toEqual([
+            "Unknown layout 'ghost'",
+        ]);
+        expect(render(parse("{extends:ghost}{slot:body|x}").template)).toBe("");
+        expect(messages("{extends:{name}}")).toEqual([
+            "Layout name must be literal text",
+        ]);
+        expect(
+            messages("{extends:a}", {
+                layouts: { a: "{extends:b}", b: "{extends:a}" },
+            }),
+        ).toEqual(["Layout 'a' extends itself: a → b → a"]);
+    });
+
+    it("warns about ignored content and repeated fills", () => {
+        expect(
+            parse("{extends:frame}\nstray {slot:body|a}{slot:body|b}", {
+                layouts,
+            }).diagnostics,
+        ).toMatchObject([
+            {
+                severity: "warning",
+                message:
+                    "Content outside {slot} is ignored in a template that extends a layout",
+            },
+            { severity: "warning", message: "Slot 'body' is filled twice" },
+        ]);
+        expect(messages("{extends:frame}{extends:news}")).toEqual([
+            "A template can extend only one layout",
+        ]);
+        expect(messages("{extends:frame}{slot:{x}|y}")).toEqual([
+            "Slot name must be literal text",
+        ]);
+    });
+
+    it("reports problems in a layout's source at the {extends} tag", () => {
+        const { diagnostics } = parse("\n{extends:broken}", {
+            layouts: { broken: "a\n{slot:body" },
+        });
+        expect(diagnostics).toMatchObject([
+            {
+                message: "In layout 'broken' at line 2, column 1: Unclosed tag",
+                span: { start: { line: 2, column: 1 } },
+            },
+        ]);
+    });
+});
@@ -128,3 +128,69 @@ describe("Lexer", () => {
         );
     });
 });
+
+describe("Lexer quoted literals", () => {
+    const quotes = { quotes: "\"'" };
+
+    it("are off by default", () => {
+        expect(kinds('{f:"a:b"}')).toContain('Colon:":"');
+        expect(kinds('{f:"a:b"}')).toHaveLength(8);
+    });
+
+    it("emit one text token for delimiters inside quotes", () => {
+        expect(kinds('{replace:{t}|":"|h}', quotes)).toEqual([
+            'TagStart:"{"',
+            'Text:"replace"',
+            'Colon:":"',
+            'TagStart:"{"',
+            'Text:"t"',
+            'TagEnd:"}"',
+            'Pipe:"|"',
+            'Text:":"',
+            'Pipe:"|"',
+            'Text:"h"',
+            'TagEnd:"}"',
+            'EOF:""',
+        ]);
+        expect(kinds("{f:'a|{b}'}", quotes)).toContain('Text:"a|{b}"');
+    });
+
+    it("keep the quotes in the span and mark the token", () => {
+        const tokens = [...new Lexer('{f:x"a:b"}', quotes)];
+        const quoted = tokens.find((t) => t.quoted);
+        expect(quoted?.value).toBe("a:b");
+        expect(quoted?.span.start.offset).toBe(4);
+        expect(quoted?.span.end.offset).toBe(9);
+        expect(tokens.filter((t) => t.quoted)).toHaveLength(1);
+    });
+
+    it("honor escapes inside quotes", () => {
+        expect(kinds('{f:"a\\"b"}', quotes)).toContain('Text:"a\\"b"');
+    });
+
+    it("only apply inside tags", () => {
+        expect(kinds('say "a:b"', quotes)).toEqual([
+            'Text:"say \\"a:b\\""',
+            'EOF:""',
+        ]);
+    });
+
+    it("treat an unclosed quote as text", () => {
+        expect(kinds("{f:it's|x}", quotes)).toEqual([
+            'TagStart:"{"',
+            'Text:"f"',
+            'Colon:":"',
+            'Text:"it"',
+            'Text:"\'"',
+            'Text:"s"',
+            'Pipe:"|"',
+            'Text:"x"',
+            'TagEnd:"}"',
+            'EOF:""',
+        ]);
+    });
+
+    it("reject the escape character as a quote", () => {
+        expect(() => new Lexer("", { quotes: "\\" })).toThrow(/escape/);
+    });
+});
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { renderStream } from "../src/lib/compiler/RenderStream.js";
+import { RenderError, RenderLimitError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import type { RenderLimits } from "../src/types.js";
+
+function limitError(fn: () => unknown): RenderLimitError {
+    try {
+        fn();
+    } catch (err) {
+        expect(err).toBeInstanceOf(RenderLimitError);
+        return err as RenderLimitError;
+    }
+    throw new Error("expected a RenderLimitError");
+}
+
+const bigList = Array.from({ length: 100 }, (_, i) => i);
+
+describe("render limits", () => {
+    it("renders normally within every limit", () => {
+        const { template } = parse("{each:{xs}|{it}|,}");
+        expect(
+            render(template, {
+                variables: { xs: [1, 2, 3] },
+                tags: builtinTags,
+                limits: {
+                    maxOutputLength: 7,
+                    maxTagCalls: 1,
+                    maxIterations: 3,
+                    maxTimeMs: 1_000,
+                    maxDepth: 8,
+                },
+            }),
+        ).toBe("1,2,3");
+    });
+
+    it("caps nested {each} iterations", () => {
+        const { template } = parse("{each:{xs}|{each:{xs}|{it}}}");
+        const err = limitError(() =>
+            render(template, {
+                variables: { xs: bigList },
+                tags: builtinTags,
+                limits: { maxIterations: 500 },
+            }),
+        );
+        expect(err.limit).toBe("maxIterations");
+        expect(err.max).toBe(500);
+        expect(err.tagName).toBe("each");
+        expect(err.span).toBeDefined();
+    });
+
+    it("caps output length in code points", () => {
+        const { template } = parse("{a}{b}");
+        expect(
+            render(template, {
+                variables: { a: "😀😀", b: "😀" },
+                limits: { maxOutputLength: 3 },
+            }),
+        ).toBe("😀😀😀");
+        const err = limitError(() =>
+            render(template, {
+                variables: { a: "😀😀", b: "😀😀" },
+                limits: { maxOutputLength: 3 },
+            }),
+        );
+        expect(err.limit).toBe("maxOutputLength");
+        expect(err.span?.start.offset).toBe(3);
+    });
+
+    it("caps oversized intermediate results", () => {
+        const { template } = parse("{length:{each:{xs}|{it}}}");
+        const err = limitError(() =>
+            render(template, {
+                variables: { xs: bigList },
+                tags: builtinTags,
+                limits: { maxOutputLength: 50 },
+            }),
+        );
+        expect(err.limit).toBe("maxOutputLength");
+    });
+
+    it("caps total tag calls", () => {
+        const { template } = parse("{upper:a}{upper:b}{upper:c}");
+        const err = limitError(() =>
+            render(template, { tags: builtinTags, limits: { maxTagCalls: 2 } }),
+        );
+        expect(err.limit).toBe("maxTagCalls");
+        expect(err.span?.start.offset).toBe(18);
+    });
+
+    it("caps wall-clock time", () => {
+        const { template } = parse("{slow:x}{slow:y}");
+        const err = limitError(() =>
+            render(template, {
+                tags: {
+                    slow: () => {
+                        const until = performance.now() + 15;
+                        while (performance.now() < until) {
+                            // busy-wait
+                        }
+                        return "";
+                    },
+                },
+                limits: { maxTimeMs: 5 },
+            }),
+        );
+        expect(err.limit).toBe("maxTimeMs");
+        expect(err.span?.start.offset).toBe(8);
+    });
+
+    it("makes the depth limit configurable", () => {
+        const { template } = parse("{upper:{upper:{upper:x}}}");
+        const err = limitError(() =>
+            render(template, { tags: builtinTags, limits: { maxDepth: 2 } }),
+        );
+        expect(err.limit).toBe("maxDepth");
+        expect(err).toBeInstanceOf(RenderError);
+    });
+
+    it("rejects negative limits", () => {
+        const { template } = parse("x");
+        expect(() => render(template, { limits: { maxTagCalls: -1 } })).toThrow(
+            /maxTagCalls/,
+        );
+    });
+
+    it("applies to compiled functions", () => {
+        const { template } = parse("{each:{xs}|{it}}");
+        const fn = compileToFunction(template);
+        const err = limitError(() =>
+            fn({
+                variables: { xs: bigList },
+                tags: builtinTags,
+                limits: { maxIterations: 10 },
+            }),
+        );
+        expect(err.limit).toBe("maxIterations");
+    });
+});
+
+describe("async render limits", () => {
+    const limits: RenderLimits = { maxIterations: 10 };
+
+    it("applies to renderAsync", async () => {
+        const { template } = parse("{each:{xs}|{it}}");
+        await expect(
+            renderAsync(template, {
+                variables: { xs: bigList },
+                tags: builtinTags,
+                limits,
+            }),
+        ).rejects.toMatchObject({ limit: "maxIterations" });
+    });
+
+    it("applies with concurrency", async () => {
+        const { template } = parse("{a:1}{a:2}{a:3}");
+        await expect(
+            renderAsync(template, {
+                tags: { a: async (args) => args[0] },
+                concurrency: 3,
+                limits: { maxTagCalls: 2 },
+            }),
+        ).rejects.toBeInstanceOf(RenderLimitError);
+    });
+
+    it("counts streamed output towards maxOutputLength", async () => {
+        const { template } = parse("{a}{b}{c}");
+        const chunks: string[] = [];
+        const consume = async () => {
+            for await (const chunk of renderStream(template, {
+                variables: { a: "xx", b: "yy", c: "zz" },
+                limits: { maxOutputLength: 5 },
+            })) {
+                chunks.push(chunk);
+            }
+        };
+        await expect(consume()).rejects.toMatchObject({
+            limit: "maxOutputLength",
+        });
+        expect(chunks).toEqual(["xx", "yy"]);
+    });
+});
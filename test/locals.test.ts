@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { renderStream } from "../src/lib/compiler/RenderStream.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import type { ParserOptions } from "../src/types.js";
+
+/** Render with every renderer, checking they agree. */
+async function renderAll(
+    source: string,
+    variables: Record<string, unknown> = {},
+    parserOptions: ParserOptions = {},
+): Promise<string> {
+    const { template } = parse(source, parserOptions);
+    const options = { variables, tags: builtinTags };
+    const sync = render(template, options);
+    expect(compileToFunction(template)(options)).toBe(sync);
+    expect(await renderAsync(template, options)).toBe(sync);
+    let streamed = "";
+    for await (const chunk of renderStream(template, options)) {
+        streamed += chunk;
+    }
+    expect(streamed).toBe(sync);
+    return sync;
+}
+
+describe("{set}", () => {
+    it("stores a value for later nodes", async () => {
+        expect(
+            await renderAll("[{rank}]{set:rank|#{upper:{r}}}[{rank}]", {
+                r: "gold",
+            }),
+        ).toBe("[][#GOLD]");
+    });
+
+    it("keeps values, shadows variables and can be overwritten", async () => {
+        expect(
+            await renderAll(
+                "{user}{set:user|{names}}{each:{user}|{it}|+}{set:user|z}{user}",
+                { user: "u", names: ["a", "b"] },
+            ),
+        ).toBe("ua+bz");
+    });
+
+    it("writes to the innermost frame", async () => {
+        // Branches share the frame around them; {each} items and {let}
+        // bodies get their own.
+        expect(
+            await renderAll(
+                "{if:{on}|{set:a|1}}{a}/{each:x,y|{set:b|{it}}{b}}[{b}]/{let:c|2|{set:d|3}{d}}[{d}]",
+                { on: true },
+            ),
+        ).toBe("1/xy[]/3[]");
+    });
+
+    it("feeds expressions", async () => {
+        expect(
+            await renderAll(
+                "{set:n|{level}}{if:n >= 10|high|low}",
+                { level: 12 },
+                { expressionTags: ["if"] },
+            ),
+        ).toBe("high");
+    });
+
+    it("ignores calls without a name and value", async () => {
+        expect(await renderAll("{set:x}{set: |1}{x}")).toBe("");
+    });
+});
+
+describe("{let}", () => {
+    it("binds a local for its body only", async () => {
+        expect(
+            await renderAll("{let:who|{upper:{name}}|hi {who}}, {who}", {
+                name: "bo",
+            }),
+        ).toBe("hi BO, ");
+    });
+
+    it("binds values and nests", async () => {
+        expect(
+            await renderAll(
+                "{let:xs|{list}|{let:n|{length:{xs}}|{n}: {each:{xs}|{it}}}}",
+                { list: ["a", "b"] },
+            ),
+        ).toBe("2: ab");
+    });
+
+    it("needs a name, a value and a body", async () => {
+        expect(await renderAll("{let:x|1}{let: |1|body}")).toBe("");
+    });
+});
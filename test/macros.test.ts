@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { RenderError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { NodeKind } from "../src/types.js";
+
+const macros = { macros: true } as const;
+
+function messages(source: string): string[] {
+    return parse(source, macros).diagnostics.map((d) => d.message);
+}
+
+describe("macros: definitions", () => {
+    it("collects top-level definitions out of the nodes", () => {
+        const { template, diagnostics } = parse(
+            "{define:badge|level|[{level}]}Hi {badge:gold}",
+            macros,
+        );
+        expect(diagnostics).toEqual([]);
+        expect(template.nodes.map((n) => n.kind)).toEqual([
+            NodeKind.Text,
+            NodeKind.Tag,
+        ]);
+        expect(template.macros?.badge).toMatchObject({
+            name: "badge",
+            params: ["level"],
+            body: [
+                { kind: NodeKind.Text, value: "[" },
+                { kind: NodeKind.Variable, name: "level" },
+                { kind: NodeKind.Text, value: "]" },
+            ],
+            span: { start: { offset: 0 }, end: { offset: 30 } },
+        });
+        expect(parse("plain", macros).template.macros).toBeUndefined();
+    });
+
+    it("are off by default", () => {
+        const { template, diagnostics } = parse("a {define:word} b", {
+            strict: true,
+        });
+        expect(diagnostics).toEqual([]);
+        expect(template.macros).toBeUndefined();
+        const define = (args: readonly string[]) => `(${args.join(",")})`;
+        const tpl = Template.compile("{define:a|b}x {a}");
+        expect(tpl.render({ tags: { define }, variables: { a: "A" } })).toBe(
+            "(a,b)x A",
+        );
+    });
+
+    it("accepts the block form", () => {
+        const { template } = parse(
+            "{#define row|k|v}{k}={v};{/define}",
+            macros,
+        );
+        expect(template.macros?.row?.params).toEqual(["k", "v"]);
+    });
+
+    it("reports invalid definitions", () => {
+        expect(messages("{define:x}")).toEqual([
+            "A macro needs a name and a body",
+        ]);
+        expect(messages("{define:{n}|body}")).toEqual([
+            "Macro name must be an identifier",
+        ]);
+        expect(messages("{define:include|body}")).toEqual([
+            "'include' cannot be a macro name",
+        ]);
+        expect(messages("{define:m|a b|body}")).toEqual([
+            "Parameters of macro 'm' must be identifiers",
+        ]);
+        expect(messages("{define:m|a|a|body}")).toEqual([
+            "Macro 'm' repeats parameter 'a'",
+        ]);
+        expect(messages("{define:m|1}{define:m|2}")).toEqual([
+            "Macro 'm' is already defined",
+        ]);
+        expect(messages("{if:{x}|{define:m|1}}")).toEqual([
+            "{define} must be at the top level of a template",
+        ]);
+    });
+
+    it("reports recursion", () => {
+        expect(messages("{define:a|{a:}}")).toEqual([
+            "Macro 'a' calls itself: a → a",
+        ]);
+        expect(
+            messages("{define:a|{b:}}{define:b|{if:{x}|{c:}}}{define:c|{b:}}"),
+        ).toEqual(["Macro 'b' calls itself: b → c → b"]);
+        expect(messages("{define:a|{b}}{define:b|{a}}{a}")).toEqual([
+            "Macro 'a' calls itself: a → b → a",
+        ]);
+    });
+
+    it("reads a variable named after a macro as a call", async () => {
+        const { template, diagnostics } = parse(
+            "{define:hello|Hi}{define:wrap|hello|<{hello}>}{hello} {wrap:x}",
+            macros,
+        );
+        expect(diagnostics).toEqual([]);
+        expect(template.nodes[0]).toMatchObject({
+            kind: NodeKind.Tag,
+            name: "hello",
+            args: [],
+        });
+        // A parameter of the same name shadows the macro.
+        expect(template.macros?.wrap?.body[1]).toMatchObject({
+            kind: NodeKind.Variable,
+            name: "hello",
+        });
+        expect(render(template)).toBe("Hi <x>");
+        expect(compileToFunction(template)({})).toBe("Hi <x>");
+        expect(await renderAsync(template)).toBe("Hi <x>");
+    });
+});
+
+describe("macros: rendering", () => {
+    const source =
+        "{define:badge|level|[{upper:{level}}]}{badge:gold} {badge:level=<b>} {badge:}";
+
+    it("binds parameters as locals in every renderer", async () => {
+        const { template } = parse(source, macros);
+        const options = { tags: builtinTags, escape: "html" as const };
+        const expected = "[GOLD] [&lt;B&gt;] []";
+        expect(render(template, options)).toBe(expected);
+        expect(await renderAsync(template, options)).toBe(expected);
+        expect(compileToFunction(template)(options)).toBe(expected);
+    });
+
+    it("passes values through to the body", () => {
+        const { template } = parse(
+            "{define:list|xs|{each:{xs}|<{it}>}}{list:{items}}",
+            macros,
+        );
+        expect(
+            render(template, {
+                variables: { items: ["a", "b"] },
+                tags: builtinTags,
+            }),
+        ).toBe("<a><b>");
+    });
+
+    it("lets registered tags take precedence", () => {
+        const { template } = parse("{define:upper|x|macro}{upper:y}", macros);
+        expect(render(template, { tags: builtinTags })).toBe("Y");
+        expect(render(template)).toBe("macro");
+    });
+
+    it("scopes macros to their template", () => {
+        const partials = {
+            card: Template.compile("{define:b|x|<{x}>}{b:card}{a:}", macros),
+        };
+        const { template } = parse(
+            "{define:a|A}{include:card}{b:main}",
+            macros,
+        );
+        const report = render(template, { partials, errorMode: "collect" });
+        expect(report.output).toBe("<card>");
+        expect(report.missingTags.map((t) => t.name).sort()).toEqual([
+            "a",
+            "b",
+        ]);
+    });
+
+    it("makes a layout's macros available to its children", () => {
+        const { template } = parse(
+            "{define:own|o}{extends:base}{slot:body|{b:}{own:}}",
+            {
+                ...macros,
+                layouts: { base: "{define:b|B}<{slot:body}>" },
+            },
+        );
+        expect(Object.keys(template.macros ?? {})).toEqual(["own", "b"]);
+        expect(render(template)).toBe("<Bo>");
+    });
+
+    it("guards against recursion at render time", () => {
+        const { template } = parse("{define:a|{a:}}{a:}", macros);
+        expect(() => render(template)).toThrow(RenderError);
+        expect(() => render(template)).toThrow("Macro 'a' calls itself: a → a");
+    });
+
+    it("keeps its own names out of tagNames", () => {
+        const tpl = Template.compile(source, macros);
+        expect([...tpl.macroNames]).toEqual(["badge"]);
+        expect([...tpl.tagNames]).toEqual(["upper"]);
+        expect([...tpl.variableNames]).toEqual(["level"]);
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import {
+    defineStructuralTag,
+    defineValueTag,
+    render,
+} from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { walk } from "../src/lib/visitor/Visitor.js";
+import { NodeKind, type TagNode } from "../src/types.js";
+
+function firstTag(source: string): TagNode {
+    const node = parse(source).template.nodes[0];
+    if (node?.kind !== NodeKind.Tag) throw new Error("expected a tag");
+    return node;
+}
+
+describe("named arguments: parsing", () => {
+    it("splits key=value arguments from positional ones", () => {
+        const tag = firstTag("{each:{items}|{it}|sep=, }");
+        expect(tag.args).toHaveLength(2);
+        expect(Object.keys(tag.named ?? {})).toEqual(["sep"]);
+        expect(tag.named?.sep?.nodes).toEqual([
+            {
+                kind: NodeKind.Text,
+                value: ", ",
+                span: {
+                    start: { line: 1, column: 24, offset: 23 },
+                    end: { line: 1, column: 26, offset: 25 },
+                },
+            },
+        ]);
+        // The argument's span covers the key too.
+        expect(tag.named?.sep?.span.start.offset).toBe(19);
+    });
+
+    it("keeps nested tags in named values", () => {
+        const tag = firstTag("{t:a|x=pre{v}post}");
+        expect(tag.named?.x?.nodes.map((n) => n.kind)).toEqual([
+            NodeKind.Text,
+            NodeKind.Variable,
+            NodeKind.Text,
+        ]);
+    });
+
+    it("leaves positional templates untouched", () => {
+        for (const source of ["{t:a|b}", "{t: x=1}", "{t:1=2}", "{t:=x}"]) {
+            const tag = firstTag(source);
+            expect(tag).not.toHaveProperty("named");
+        }
+        expect(firstTag("{t: x=1}").args[0]?.nodes).toMatchObject([
+            { value: " x=1" },
+        ]);
+    });
+
+    it("keeps an escaped = positional", () => {
+        const tag = firstTag("{t:key\\=value}");
+        expect(tag).not.toHaveProperty("named");
+        expect(tag.args[0]?.nodes).toMatchObject([{ value: "key=value" }]);
+    });
+
+    it("warns on duplicate keys and keeps the last", () => {
+        const { template, diagnostics } = parse("{t:k=1|k=2}");
+        expect(diagnostics).toMatchObject([
+            { severity: "warning", message: "Duplicate named argument 'k'" },
+        ]);
+        const tag = template.nodes[0] as TagNode;
+        expect(tag.named?.k?.nodes).toMatchObject([{ value: "2" }]);
+    });
+
+    it("treats prototype keys as plain names", () => {
+        const tag = firstTag("{t:__proto__=x|constructor=y}");
+        expect(Object.keys(tag.named ?? {})).toEqual([
+            "__proto__",
+            "constructor",
+        ]);
+    });
+});
+
+describe("named arguments: rendering", () => {
+    const greet = (
+        args: readonly string[],
+        _ctx: unknown,
+        named: Readonly<Record<string, string>>,
+    ) => `${named.greeting ?? "Hello"}, ${args[0]}${named.punct ?? "!"}`;
+
+    it("passes rendered values to plain tags", () => {
+        const { template } = parse("{greet:{name}|greeting=Hi {title}}");
+        expect(
+            render(template, {
+                variables: { name: "Ada", title: "Dr." },
+                tags: { greet },
+            }),
+        ).toBe("Hi Dr., Ada!");
+    });
+
+    it("passes an empty record when there are none", () => {
+        const { template } = parse("{greet:Bo}");
+        expect(render(template, { tags: { greet } })).toBe("Hello, Bo!");
+    });
+
+    it("passes argument nodes to structural tags", () => {
+        const pick = defineStructuralTag((_args, _ctx, renderArg, _e, named) =>
+            named.when ? renderArg(named.when) : "none",
+        );
+        const { template } = parse("{pick:x|when={v}}");
+        expect(
+            render(template, { variables: { v: "lazy" }, tags: { pick } }),
+        ).toBe("lazy");
+    });
+
+    it("passes values to value tags", () => {
+        const size = defineValueTag((_args, _ctx, named) =>
+            Array.isArray(named.of) ? named.of.length : -1,
+        );
+        const { template } = parse("{size:of={xs}}");
+        expect(
+            render(template, { variables: { xs: [1, 2, 3] }, tags: { size } }),
+        ).toBe("3");
+    });
+
+    it("accepts sep= in {each}", async () => {
+        const { template } = parse("{each:{xs}|<{it}>|sep=, }");
+        const options = { variables: { xs: ["a", "b"] }, tags: builtinTags };
+        expect(render(template, options)).toBe("<a>, <b>");
+        expect(compileToFunction(template)(options)).toBe("<a>, <b>");
+        expect(await renderAsync(template, options)).toBe("<a>, <b>");
+    });
+
+    it("behaves the same compiled and async", async () => {
+        const { template } = parse("{greet:{name}|punct=?|greeting=Yo}");
+        const options = { variables: { name: "Cy" }, tags: { greet } };
+        expect(compileToFunction(template)(options)).toBe("Yo, Cy?");
+        expect(await renderAsync(template, options)).toBe("Yo, Cy?");
+        expect(
+            await renderAsync(template, { ...options, concurrency: 4 }),
+        ).toBe("Yo, Cy?");
+    });
+});
+
+describe("named arguments: visitor", () => {
+    it("walks named arguments after positional ones", () => {
+        const { template } = parse("{t:{a}|k={b}}");
+        const seen: string[] = [];
+        walk(template.nodes, {
+            visitArgument(_node, ctx) {
+                seen.push(`${ctx.index}:${ctx.name ?? "-"}`);
+            },
+            visitVariable(node) {
+                seen.push(node.name);
+            },
+        });
+        expect(seen).toEqual(["0:-", "a", "1:k", "b"]);
+    });
+});
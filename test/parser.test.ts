@@ -134,4 +134,42 @@ describe("parse", () => {
         if (v.kind !== NodeKind.Variable) throw new Error();
         expect(v.name).toBe(" name ");
     });
+
+    it("reads quoted literals as argument text", () => {
+        const { template, diagnostics } = parse(
+            '{if:{ok}|"https://x.test/a|b"|no} {t:"sep=:"}',
+            { quotes: '"' },
+        );
+        expect(diagnostics).toEqual([]);
+        expect(template.nodes[0]).toMatchObject({
+            kind: NodeKind.Tag,
+            args: [
+                {},
+                { nodes: [{ value: "https://x.test/a|b" }] },
+                { nodes: [{ value: "no" }] },
+            ],
+        });
+        // A quoted `key=` stays positional.
+        expect(template.nodes[2]).toMatchObject({
+            args: [{ nodes: [{ value: "sep=:" }] }],
+        });
+        expect(template.nodes[2]).not.toHaveProperty("named");
+    });
+
+    it("merges quoted literals with neighbouring text", () => {
+        const { template } = parse('{t:a":"b|sep=", "}', { quotes: '"' });
+        expect(template.nodes[0]).toMatchObject({
+            args: [
+                {
+                    nodes: [
+                        {
+                            value: "a:b",
+                            span: { start: { offset: 3 }, end: { offset: 8 } },
+                        },
+                    ],
+                },
+            ],
+            named: { sep: { nodes: [{ value: ", " }] } },
+        });
+    });
 });
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { renderStream } from "../src/lib/compiler/RenderStream.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { RenderError, RenderLimitError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { collectPartialNames } from "../src/lib/visitor/Visitor.js";
+
+const partials = {
+    footer: Template.compile("-- {team}"),
+    badge: Template.compile("[{rank}]"),
+    item: parse("<{it}>").template,
+};
+
+describe("partials: rendering", () => {
+    it("renders a partial with the current context and locals", () => {
+        const { template } = parse(
+            "{each:{xs}|{include:item}|, } {include:footer}",
+        );
+        const options = {
+            variables: { xs: ["a", "b"], team: "Mods" },
+            tags: builtinTags,
+            partials,
+        };
+        expect(render(template, options)).toBe("<a>, <b> -- Mods");
+        expect(compileToFunction(template)(options)).toBe("<a>, <b> -- Mods");
+    });
+
+    it("passes named arguments as locals", () => {
+        const { template } = parse("{include:badge|rank={level}}{rank}");
+        expect(render(template, { variables: { level: 3 }, partials })).toBe(
+            "[3]",
+        );
+    });
+
+    it("renders the name argument", () => {
+        const { template } = parse("{include:{kind}}");
+        expect(
+            render(template, {
+                variables: { kind: "footer", team: "X" },
+                partials,
+            }),
+        ).toBe("-- X");
+    });
+
+    it("escapes values inside the partial once", () => {
+        const { template } = parse("{include:footer}");
+        expect(
+            render(template, {
+                variables: { team: "<b>" },
+                partials,
+                escape: "html",
+            }),
+        ).toBe("-- &lt;b&gt;");
+    });
+
+    it("uses loaders, async ones in the async renderers", async () => {
+        const seen: string[] = [];
+        const loader = async (name: string) => {
+            seen.push(name);
+            return name === "hi" ? Template.compile("hi {who}") : undefined;
+        };
+        const { template } = parse("{include:hi}!");
+        const options = { variables: { who: "Bo" }, partials: loader };
+        expect(await renderAsync(template, options)).toBe("hi Bo!");
+        const chunks: string[] = [];
+        for await (const chunk of renderStream(template, options)) {
+            chunks.push(chunk);
+        }
+        expect(chunks.join("")).toBe("hi Bo!");
+        expect(seen).toEqual(["hi", "hi"]);
+        expect(() => render(template, options)).toThrow(
+            "Partial loader returned a Promise for 'hi'; use renderAsync() for async loaders.",
+        );
+    });
+
+    it("leaves {include} to tags without the partials option", () => {
+        const { template } = parse("{include:footer}");
+        expect(render(template, { onMissingTag: (name) => `<${name}?>` })).toBe(
+            "<include?>",
+        );
+    });
+});
+
+describe("partials: failures", () => {
+    it("reports missing partials through onMissingPartial", async () => {
+        const { template } = parse("a{include:nope}b");
+        const options = {
+            partials,
+            onMissingPartial: (name: string) => `(${name})`,
+        };
+        expect(render(template, options)).toBe("a(nope)b");
+        expect(await renderAsync(template, options)).toBe("a(nope)b");
+        const report = render(template, { partials, errorMode: "collect" });
+        expect(report.output).toBe("ab");
+        expect(report.missingPartials).toMatchObject([
+            { name: "nope", span: { start: { offset: 1 } } },
+        ]);
+    });
+
+    it("detects cycles", async () => {
+        const cyclic = {
+            a: Template.compile("A{include:b}"),
+            b: Template.compile("B{include:a}"),
+        };
+        const { template } = parse("{include:a}");
+        const message = "Partial 'a' includes itself: a → b → a";
+        expect(() => render(template, { partials: cyclic })).toThrow(message);
+        await expect(
+            renderAsync(template, { partials: cyclic }),
+        ).rejects.toThrow(RenderError);
+        const report = render(template, {
+            partials: cyclic,
+            errorMode: "collect",
+            errorPlaceholder: "?",
+        });
+        expect(report.output).toBe("AB?");
+        expect(report.errors[0]?.error?.message).toContain(message);
+    });
+
+    it("limits include depth", () => {
+        // p0 includes p1 includes p2 ... with no cycle.
+        const loader = (name: string) =>
+            Template.compile(`{include:p${Number(name.slice(1)) + 1}}`);
+        const { template } = parse("{include:p0}");
+        let error: unknown;
+        try {
+            render(template, { partials: loader });
+        } catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(RenderLimitError);
+        expect(error).toMatchObject({ limit: "maxIncludeDepth", max: 10 });
+        expect(() =>
+            render(template, {
+                partials: loader,
+                limits: { maxIncludeDepth: 3 },
+                errorMode: "collect",
+            }),
+        ).toThrow("Render limit exceeded: maxIncludeDepth (3)");
+    });
+
+    it("exposes the include chain on the context", () => {
+        const seen: (readonly string[] | undefined)[] = [];
+        const probe = (
+            _args: readonly string[],
+            ctx: { partials?: readonly string[] },
+        ) => {
+            seen.push(ctx.partials);
+            return "";
+        };
+        const { template } = parse("{probe:}{include:outer}");
+        render(template, {
+            tags: { probe },
+            partials: {
+                outer: Template.compile("{include:inner}"),
+                inner: Template.compile("{probe:}"),
+            },
+        });
+        expect(seen).toEqual([undefined, ["outer", "inner"]]);
+    });
+});
+
+describe("partials: collectPartialNames", () => {
+    it("collects literal names only", () => {
+        const { template } = parse(
+            "{include: footer }{if:{x}|{include:badge}}{include:{kind}}{inc:x}",
+        );
+        expect([...collectPartialNames(template.nodes)]).toEqual([
+            "footer",
+            "badge",
+        ]);
+        expect([...Template.compile("{include:a}").partialNames]).toEqual([
+            "a",
+        ]);
+    });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
+import { Lexer } from "../src/lib/lexer/Lexer.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { format, print } from "../src/lib/printer/Printer.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import type { ParserOptions, TemplateNode } from "../src/types.js";
+import { CstKind, TokenKind } from "../src/types.js";
+
+/** Nodes without spans, for comparing ASTs of different sources. */
+function shape(nodes: readonly TemplateNode[]): unknown {
+    return JSON.parse(
+        JSON.stringify(nodes, (key, value) =>
+            key === "span" ? undefined : value,
+        ),
+    );
+}
+
+const sources: [string, ParserOptions][] = [
+    ["Hello {user}!", {}],
+    ["{upper:{trim:{ name }}|x:y}", {}],
+    ["\\{not a tag\\} C:\\\\path \\", {}],
+    ["{replace:{x}|a\\|b|c} {t:k\\=v|k=v}", {}],
+    ["{- x -}\n  {if:{a}|yes|no}  {- y}", {}],
+    ["{#if {a}}\n  yes\n{:else}\n  no\n{/if}", { trimBlocks: true }],
+    ["{# a comment #}{x}{# unterminated", {}],
+    ["{raw}{x}|{/raw} and {raw}{x}", { rawTag: "raw" }],
+    ["{replace:{t}|\":\"|'|'}", { quotes: "\"'" }],
+    ["{name >> trim >> replace:a|b >> upper}", { filterOperator: ">>" }],
+    ["{if:level >= 10 && premium|VIP}", { expressionTags: ["if"] }],
+    [
+        "<<user>> <<upper:<<x>>|\\<<>> {literal}",
+        { tagStart: "<<", tagEnd: ">>" },
+    ],
+    ["😀 {é:😀|x} {a:b:c} {} {:} } {a|b}", {}],
+    ["{outer:{inner:{x", {}],
+];
+
+describe("CST", () => {
+    it.each(sources)("prints %j back byte for byte", (source, options) => {
+        const { cst } = parse(source, { ...options, cst: true });
+        expect(cst).toBeDefined();
+        expect(print(cst ?? [], options)).toBe(source);
+    });
+
+    it("is only built when asked for", () => {
+        expect(parse("{x}").cst).toBeUndefined();
+    });
+
+    it("keeps delimiters, separators and escapes as nodes", () => {
+        const { cst } = parse("a\\{ {- t:x|y:z -}", { cst: true });
+        expect(cst?.map((n) => n.kind)).toEqual([
+            CstKind.Text,
+            CstKind.Escape,
+            CstKind.Text,
+            CstKind.Tag,
+        ]);
+        expect(cst?.[1]).toMatchObject({ char: "{", text: "\\{" });
+        const tag = cst?.[3];
+        if (tag?.kind !== CstKind.Tag) throw new Error("expected a tag");
+        expect(tag.open).toBe("{- ");
+        expect(tag.close).toBe(" -}");
+        expect(tag.name).toMatchObject([{ kind: CstKind.Text, text: "t" }]);
+        expect(tag.args.map((a) => [a.separator, print(a.nodes)])).toEqual([
+            [":", "x"],
+            ["|", "y:z"],
+        ]);
+    });
+
+    it("leaves unclosed tags without a close", () => {
+        const { cst } = parse("{a:{b}", { cst: true });
+        const tag = cst?.[0];
+        expect(tag).toMatchObject({ kind: CstKind.Tag, open: "{" });
+        expect(tag).not.toHaveProperty("close");
+    });
+});
+
+describe("print()", () => {
+    it.each(sources)(
+        "prints the AST of %j so it reparses the same",
+        (source, options) => {
+            const parsed = parse(source, { ...options, keepComments: true });
+            const printed = print(parsed.template.nodes, options);
+            const reparsed = parse(printed, { ...options, keepComments: true });
+            expect(shape(reparsed.template.nodes)).toEqual(
+                shape(parsed.template.nodes),
+            );
+        },
+    );
+
+    it("prints tags inline with canonical escapes", () => {
+        const print1 = (source: string) => print(parse(source).template.nodes);
+        expect(print1("{#if {a}}x|y{:else}z{/if}")).toBe("{if:{a}|x\\|y|z}");
+        expect(
+            print(
+                parse("{a >> upper}", { filterOperator: ">>" }).template.nodes,
+            ),
+        ).toBe("{upper:{a}}");
+        expect(print1("{- x -} \\{")).toBe("{x}\\{");
+        expect(print1("{t:k\\=v|k=v}")).toBe("{t:k\\=v|k=v}");
+    });
+
+    it("prints with custom delimiters", () => {
+        const options = { tagStart: "<%", tagEnd: "%>" };
+        const { template } = parse("{x} <%upper:<%y%>%>", options);
+        expect(print(template.nodes, options)).toBe("{x} <%upper:<%y%>%>");
+        expect(print(template.nodes)).toBe("\\{x} {upper:{y}}");
+    });
+
+    it("escapes names that would read as markers", () => {
+        const nodes: TemplateNode[] = [
+            { kind: "Variable", name: "#x", span: span() },
+            { kind: "Variable", name: "a >> b", span: span() },
+            { kind: "Variable", name: "- a -", span: span() },
+        ];
+        const options = { filterOperator: ">>" } as const;
+        const printed = print(nodes, options);
+        expect(shape(parse(printed, options).template.nodes)).toEqual(
+            shape(nodes),
+        );
+    });
+});
+
+describe("format()", () => {
+    it("turns nested filters into chains", () => {
+        const chains = (source: string) =>
+            format(source, { filterOperator: ">>" });
+        expect(chains("{upper:{trim:{name}}}")).toBe("{name >> trim >> upper}");
+        expect(chains("{#upper}{trim:{name}}{/upper}")).toBe(
+            "{name >> trim >> upper}",
+        );
+        expect(chains("{upper:{replace:{x}|a|b}|k=v}")).toBe(
+            "{x >> replace:a|b >> upper:k=v}",
+        );
+        // One level deep stays as written.
+        expect(chains("{upper:{name}}")).toBe("{upper:{name}}");
+        // So do names a chain cannot hold.
+        expect(chains("{upper:{trim:{ name }}}")).toBe(
+            "{upper:{trim:{ name }}}",
+        );
+    });
+
+    it("leaves chains off by default", () => {
+        for (const options of [{}, { filterOperator: false } as const]) {
+            expect(format("{a >> trim >> upper}", options)).toBe(
+                "{a >> trim >> upper}",
+            );
+            expect(format("{upper:{trim:{a}}}", options)).toBe(
+                "{upper:{trim:{a}}}",
+            );
+        }
+    });
+
+    it("applies trim markers and keeps comments and macros in place", () => {
+        expect(
+            format("{# head #}\n{define:b|x|<b>{x}</b>}\n{- b:{y} -}\n!", {
+                macros: true,
+            }),
+        ).toBe("{# head #}\n{define:b|x|<b>{x}</b>}{b:{y}}!");
+    });
+
+    it.each(sources)(
+        "is idempotent on %j and renders the same",
+        (source, options) => {
+            const formatted = format(source, options);
+            expect(format(formatted, options)).toBe(formatted);
+            const variables = { user: "Ann", name: " x ", a: "1", level: 12 };
+            const run = (s: string) =>
+                render(parse(s, options).template, {
+                    variables,
+                    tags: builtinTags,
+                    errorMode: "collect",
+                }).output;
+            expect(run(formatted)).toBe(run(source));
+        },
+    );
+});
+
+describe("Lexer keepEscapes", () => {
+    it("yields escapes as Escape tokens spanning the escape character", () => {
+        const tokens = [...new Lexer("a\\{", { keepEscapes: true })];
+        expect(tokens[1]).toMatchObject({
+            kind: TokenKind.Escape,
+            value: "{",
+            span: { start: { offset: 1 }, end: { offset: 3 } },
+        });
+    });
+});
+
+function span() {
+    const start = { line: 1, column: 1, offset: 0 };
+    return { start, end: start };
+}
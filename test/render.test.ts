@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
 import { Template } from "../src/lib/compiler/Template.js";
+import { RenderAbortedError, RenderError } from "../src/lib/errors/Errors.js";
 import { parse } from "../src/lib/parser/Parser.js";
 import { builtinTags } from "../src/lib/tags/builtins.js";
 
@@ -147,6 +148,209 @@ describe("renderAsync", () => {
     });
 });
 
+describe("renderAsync concurrency", () => {
+    function tracker() {
+        const state = { active: 0, max: 0, order: [] as string[] };
+        const tag = async (args: readonly string[]) => {
+            state.active++;
+            state.max = Math.max(state.max, state.active);
+            await new Promise((r) => setTimeout(r, 5));
+            state.order.push(args[0] ?? "");
+            state.active--;
+            return args[0];
+        };
+        return { state, tag };
+    }
+
+    it("is sequential by default", async () => {
+        const { state, tag } = tracker();
+        const { template } = parse("{t:a}{t:b}{t:c}");
+        expect(await renderAsync(template, { tags: { t: tag } })).toBe("abc");
+        expect(state.max).toBe(1);
+    });
+
+    it("evaluates siblings in parallel while keeping output order", async () => {
+        const { state, tag } = tracker();
+        const { template } = parse("{t:a}-{t:b}-{t:c}-{t:d}-{t:e}");
+        const out = await renderAsync(template, {
+            tags: { t: tag },
+            concurrency: Number.POSITIVE_INFINITY,
+        });
+        expect(out).toBe("a-b-c-d-e");
+        expect(state.max).toBe(5);
+    });
+
+    it("respects the limit", async () => {
+        const { state, tag } = tracker();
+        const { template } = parse("{t:a}{t:b}{t:c}{t:d}{t:e}");
+        await renderAsync(template, { tags: { t: tag }, concurrency: 2 });
+        expect(state.max).toBe(2);
+    });
+
+    it("evaluates eager tag arguments in parallel", async () => {
+        const { state, tag } = tracker();
+        const { template } = parse("{join:{t:a}|{t:b}|{t:c}}");
+        const out = await renderAsync(template, {
+            tags: { t: tag, join: (args) => args.join("+") },
+            concurrency: 3,
+        });
+        expect(out).toBe("a+b+c");
+        expect(state.max).toBe(3);
+    });
+
+    it("renders {each} items sequentially by default", async () => {
+        const { state, tag } = tracker();
+        const { template } = parse("{each:a,b,c|{t:{it}}|,}");
+        const out = await renderAsync(template, {
+            tags: { ...builtinTags, t: tag },
+        });
+        expect(out).toBe("a,b,c");
+        expect(state.max).toBe(1);
+    });
+
+    it("renders {each} items concurrently when allowed", async () => {
+        const { state, tag } = tracker();
+        const { template } = parse("{each:a,b,c,d|{t:{it}}|,}");
+        const out = await renderAsync(template, {
+            tags: { ...builtinTags, t: tag },
+            concurrency: 4,
+        });
+        expect(out).toBe("a,b,c,d");
+        expect(state.max).toBe(4);
+    });
+
+    it("propagates the first failure", async () => {
+        const { template } = parse("{ok:a}{bad:b}{ok:c}");
+        await expect(
+            renderAsync(template, {
+                tags: {
+                    ok: async (args) => args[0],
+                    bad: async () => {
+                        throw new Error("boom");
+                    },
+                },
+                concurrency: 3,
+            }),
+        ).rejects.toThrow(/bad/);
+    });
+
+    it("rejects invalid limits", async () => {
+        const { template } = parse("x");
+        await expect(renderAsync(template, { concurrency: 0 })).rejects.toThrow(
+            /concurrency/,
+        );
+        await expect(
+            renderAsync(template, { concurrency: 1.5 }),
+        ).rejects.toThrow(/concurrency/);
+    });
+});
+
+describe("renderAsync cancellation", () => {
+    const never = () => new Promise<string>(() => {});
+
+    it("exposes the signal on the render context", async () => {
+        const controller = new AbortController();
+        let seen: AbortSignal | undefined;
+        const { template } = parse("{probe:x}");
+        await renderAsync(template, {
+            signal: controller.signal,
+            tags: {
+                probe: (_args, ctx) => {
+                    seen = ctx.signal;
+                    return "";
+                },
+            },
+        });
+        expect(seen?.aborted).toBe(false);
+    });
+
+    it("leaves ctx.signal unset when not requested", async () => {
+        let hasSignal = true;
+        const { template } = parse("{probe:x}");
+        await renderAsync(template, {
+            tags: {
+                probe: (_args, ctx) => {
+                    hasSignal = "signal" in ctx;
+                    return "";
+                },
+            },
+        });
+        expect(hasSignal).toBe(false);
+    });
+
+    it("rejects immediately on an already-aborted signal", async () => {
+        const { template } = parse("Hello {user}");
+        await expect(
+            renderAsync(template, { signal: AbortSignal.abort() }),
+        ).rejects.toBeInstanceOf(RenderAbortedError);
+    });
+
+    it("rejects a hung tag when the signal aborts, with its span", async () => {
+        const controller = new AbortController();
+        const { template } = parse("ok {hang:x} never");
+        const pending = renderAsync(template, {
+            signal: controller.signal,
+            tags: { hang: never },
+        });
+        controller.abort(new Error("token expired"));
+        const err = await pending.catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RenderAbortedError);
+        expect(err).toBeInstanceOf(RenderError);
+        expect((err as RenderAbortedError).message).toMatch(/token expired/);
+        expect((err as RenderAbortedError).span?.start.offset).toBe(3);
+    });
+
+    it("stops evaluating further nodes after an abort", async () => {
+        const controller = new AbortController();
+        const calls: string[] = [];
+        const { template } = parse("{a:1}{b:2}");
+        await expect(
+            renderAsync(template, {
+                signal: controller.signal,
+                tags: {
+                    a: () => {
+                        calls.push("a");
+                        controller.abort();
+                        return "";
+                    },
+                    b: () => {
+                        calls.push("b");
+                        return "";
+                    },
+                },
+            }),
+        ).rejects.toBeInstanceOf(RenderAbortedError);
+        expect(calls).toEqual(["a"]);
+    });
+
+    it("times out after timeoutMs", async () => {
+        const { template } = parse("{hang:x}");
+        await expect(
+            renderAsync(template, { timeoutMs: 10, tags: { hang: never } }),
+        ).rejects.toThrow(/timed out after 10ms/);
+    });
+
+    it("reports tags that forward the signal as aborted", async () => {
+        const controller = new AbortController();
+        const { template } = parse("{fetch:x}");
+        const pending = renderAsync(template, {
+            signal: controller.signal,
+            tags: {
+                fetch: (_args, ctx) =>
+                    new Promise<string>((_resolve, reject) => {
+                        ctx.signal?.addEventListener("abort", () =>
+                            reject(new Error("socket closed")),
+                        );
+                    }),
+            },
+        });
+        controller.abort();
+        const err = await pending.catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RenderAbortedError);
+        expect((err as RenderAbortedError).tagName).toBe("fetch");
+    });
+});
+
 describe("Template metadata", () => {
     it("collects variable names", () => {
         const tpl = Template.compile("{a} and {b} and {c}");
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { renderStream } from "../src/lib/compiler/RenderStream.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { RenderError, RenderLimitError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+
+const tags = {
+    ...builtinTags,
+    boom: () => {
+        throw new Error("kaboom");
+    },
+};
+
+describe("errorMode: collect", () => {
+    it("keeps rendering past failing tags and reports them", () => {
+        const { template } = parse("a{boom:x}b{upper:{boom:y}}c");
+        const report = render(template, { tags, errorMode: "collect" });
+        expect(report.output).toBe("abc");
+        expect(report.errors).toHaveLength(2);
+        expect(report.errors.map((e) => e.span.start.offset)).toEqual([1, 17]);
+        expect(report.errors[0]?.name).toBe("boom");
+        expect(report.errors[0]?.error).toBeInstanceOf(RenderError);
+        expect(report.errors[0]?.error?.message).toMatch(/kaboom/);
+    });
+
+    it("substitutes a configurable placeholder", () => {
+        const { template } = parse("[{boom:x}]");
+        expect(
+            render(template, {
+                tags,
+                errorMode: "collect",
+                errorPlaceholder: "⚠",
+            }).output,
+        ).toBe("[⚠]");
+        expect(
+            render(template, {
+                tags,
+                errorMode: "collect",
+                errorPlaceholder: (err) => `<${err.tagName}>`,
+            }).output,
+        ).toBe("[<boom>]");
+    });
+
+    it("lists missing variables and tags with spans", () => {
+        const { template } = parse("{a} {nope:1} {b}");
+        const report = render(template, {
+            variables: { b: "B" },
+            errorMode: "collect",
+            onMissingVariable: (n) => `?${n}`,
+        });
+        expect(report.output).toBe("?a  B");
+        expect(report.missingVariables).toEqual([
+            { name: "a", span: template.nodes[0]?.span },
+        ]);
+        expect(report.missingTags.map((m) => m.name)).toEqual(["nope"]);
+        expect(report.errors).toEqual([]);
+    });
+
+    it("still throws limit errors", () => {
+        const { template } = parse("{boom:x}{upper:a}{upper:b}");
+        expect(() =>
+            render(template, {
+                tags,
+                errorMode: "collect",
+                limits: { maxTagCalls: 2 },
+            }),
+        ).toThrow(RenderLimitError);
+    });
+
+    it("throws by default", () => {
+        const { template } = parse("{boom:x}");
+        expect(() => render(template, { tags })).toThrow(RenderError);
+    });
+
+    it("works through Template and compiled functions", () => {
+        const tpl = Template.compile("x{boom:1}y");
+        expect(tpl.render({ tags, errorMode: "collect" }).output).toBe("xy");
+        const fn = compileToFunction(tpl.compiled);
+        expect(fn({ tags, errorMode: "collect" }).errors).toHaveLength(1);
+    });
+
+    it("rejects unknown modes", () => {
+        const { template } = parse("x");
+        expect(() =>
+            render(template, {
+                errorMode: "ignore" as unknown as "collect",
+            }),
+        ).toThrow(/errorMode/);
+    });
+});
+
+describe("errorMode: collect (async)", () => {
+    const asyncTags = {
+        ...tags,
+        fail: async () => {
+            throw new Error("async kaboom");
+        },
+    };
+
+    it("collects in renderAsync in source order", async () => {
+        const { template } = parse("{fail:1}-{missing}-{fail:2}");
+        const report = await renderAsync(template, {
+            tags: asyncTags,
+            errorMode: "collect",
+            concurrency: 3,
+        });
+        expect(report.output).toBe("--");
+        expect(report.errors.map((e) => e.span.start.offset)).toEqual([0, 19]);
+        expect(report.missingVariables.map((m) => m.name)).toEqual(["missing"]);
+    });
+
+    it("returns the report from renderStream", async () => {
+        const { template } = parse("a{fail:1}b");
+        const it = renderStream(template, {
+            tags: asyncTags,
+            errorMode: "collect",
+            errorPlaceholder: "!",
+        });
+        const chunks: string[] = [];
+        let step = await it.next();
+        while (!step.done) {
+            chunks.push(step.value);
+            step = await it.next();
+        }
+        expect(chunks).toEqual(["a", "!", "b"]);
+        expect(step.value?.output).toBe("a!b");
+        expect(step.value?.errors).toHaveLength(1);
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
+import {
+    deserialize,
+    SERIALIZED_VERSION,
+    serialize,
+} from "../src/lib/compiler/Serialize.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { SerializationError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+
+const source = [
+    "{# greeting #}Hi {user}!",
+    "{define:badge|label|[{upper:{label}}]}",
+    "{badge:{rank}} {if:level >= 10 && premium|VIP|{replace:{x}|a|b}}",
+    "{each:{items}|{it}|sep=, }",
+].join("\n");
+const options = { keepComments: true, expressionTags: ["if"] };
+const variables = {
+    user: "Ann",
+    rank: "gold",
+    level: 12,
+    premium: true,
+    items: [1, 2],
+};
+
+function errorOf(fn: () => unknown): SerializationError {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof SerializationError) return error;
+        throw error;
+    }
+    throw new Error("expected a SerializationError");
+}
+
+describe("serialize()", () => {
+    const { template } = parse(source, options);
+
+    it("round-trips a template with its spans", () => {
+        const payload = serialize(template, {
+            spans: true,
+            parserOptions: options,
+        });
+        expect(deserialize(payload, options)).toEqual(template);
+    });
+
+    it("drops spans by default and still renders the same", () => {
+        const payload = serialize(template, { parserOptions: options });
+        const loaded = deserialize(payload, options);
+        expect(loaded.nodes[0]?.span).toEqual({
+            start: { line: 1, column: 1, offset: 0 },
+            end: { line: 1, column: 1, offset: 0 },
+        });
+        const run = (t: typeof template) =>
+            render(t, { variables, tags: builtinTags });
+        expect(run(loaded)).toBe(run(template));
+        expect(run(loaded)).toContain("Hi Ann!");
+        expect(payload.length).toBeLessThan(
+            serialize(template, { spans: true, parserOptions: options }).length,
+        );
+    });
+
+    it("stores the version, source and parser options", () => {
+        const payload = JSON.parse(
+            serialize(template, {
+                parserOptions: { ...options, strict: true },
+            }),
+        );
+        expect(payload).toMatchObject({
+            version: SERIALIZED_VERSION,
+            source,
+            options: { keepComments: true },
+        });
+        expect(payload.options).not.toHaveProperty("strict");
+    });
+});
+
+describe("deserialize()", () => {
+    const payload = serialize(parse("{x}").template);
+
+    it("rejects another format version", () => {
+        const old = JSON.stringify({ ...JSON.parse(payload), version: 0 });
+        const error = errorOf(() => deserialize(old));
+        expect(error.reason).toBe("version");
+        expect(error.source).toBe("{x}");
+    });
+
+    it("rejects other parser options, ignoring strict", () => {
+        expect(deserialize(payload, { strict: true }).nodes).toHaveLength(1);
+        const error = errorOf(() => deserialize(payload, { tagStart: "<" }));
+        expect(error.reason).toBe("options");
+        expect(error.source).toBe("{x}");
+    });
+
+    it("compares options regardless of key order", () => {
+        const layouts = { a: "{slot:x}", b: "b" };
+        const stored = serialize(parse("{x}").template, {
+            parserOptions: { layouts, trimBlocks: true },
+        });
+        expect(() =>
+            deserialize(stored, {
+                trimBlocks: true,
+                layouts: { b: "b", a: "{slot:x}" },
+            }),
+        ).not.toThrow();
+    });
+
+    it.each([
+        "not json",
+        "[]",
+        '{"version":1,"options":{},"source":"x","nodes":[["?"]]}',
+        '{"version":1,"options":{},"source":"x","nodes":[["v","x",[1,2]]]}',
+        '{"version":1,"options":{},"source":"x","nodes":[["e","plain"]]}',
+    ])("rejects malformed payload %j", (bad) => {
+        const error = errorOf(() => deserialize(bad));
+        expect(error.reason).toBe("invalid");
+        expect(error.source).toBeUndefined();
+    });
+});
+
+describe("Template serialization", () => {
+    it("round-trips through fromSerialized()", () => {
+        const tpl = Template.compile("Hi {upper:{name}}", { trimBlocks: true });
+        const loaded = Template.fromSerialized(tpl.serialize(), {
+            trimBlocks: true,
+        });
+        expect(
+            loaded.render({ variables: { name: "ann" }, tags: builtinTags }),
+        ).toBe("Hi ANN");
+        expect(loaded.diagnostics).toEqual([]);
+    });
+
+    it("recompiles a stale payload", () => {
+        const tpl = Template.compile("<name> {name}", {
+            tagStart: "<",
+            tagEnd: ">",
+        });
+        const payload = tpl.serialize();
+        // The cache was written with other delimiters than the bot now uses.
+        const loaded = Template.fromSerialized(payload);
+        expect(loaded.render({ variables: { name: "x" } })).toBe("<name> x");
+        const old = JSON.stringify({ ...JSON.parse(payload), version: -1 });
+        expect(
+            Template.fromSerialized(old, { tagStart: "<", tagEnd: ">" }).render(
+                {
+                    variables: { name: "x" },
+                },
+            ),
+        ).toBe("x {name}");
+    });
+
+    it("throws for a malformed payload", () => {
+        expect(() => Template.fromSerialized("{")).toThrow(SerializationError);
+    });
+});
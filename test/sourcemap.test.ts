@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+    defineValueTag,
+    type RenderOptions,
+    render,
+    renderWithMap,
+} from "../src/lib/compiler/Render.js";
+import type { OutputSegment } from "../src/lib/compiler/SourceMap.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import { NodeKind } from "../src/types.js";
+
+/** Each segment as [output text, source text it points at]. */
+function mapped(source: string, options: RenderOptions = {}) {
+    const { template } = parse(source, { macros: true });
+    const result = renderWithMap(template, { tags: builtinTags, ...options });
+    expect(result.output).toBe(
+        render(template, { tags: builtinTags, ...options, errorMode: "throw" }),
+    );
+    expectCoverage(result.output, result.segments);
+    const chars = Array.from(source);
+    return result.segments.map((s) => [
+        result.output.slice(s.outputStart, s.outputEnd),
+        chars.slice(s.span.start.offset, s.span.end.offset).join(""),
+    ]);
+}
+
+/** Segments are in order, non-empty and cover the whole output. */
+function expectCoverage(output: string, segments: readonly OutputSegment[]) {
+    let pos = 0;
+    for (const s of segments) {
+        expect(s.outputStart).toBe(pos);
+        expect(s.outputEnd).toBeGreaterThan(s.outputStart);
+        pos = s.outputEnd;
+    }
+    expect(pos).toBe(output.length);
+}
+
+describe("renderWithMap()", () => {
+    it("maps text and variables to their nodes", () => {
+        expect(
+            mapped("Welcome {user} to {guild}!", {
+                variables: { user: "Ann", guild: "Cafe" },
+            }),
+        ).toEqual([
+            ["Welcome ", "Welcome "],
+            ["Ann", "{user}"],
+            [" to ", " to "],
+            ["Cafe", "{guild}"],
+            ["!", "!"],
+        ]);
+    });
+
+    it("sets the node kind and tag name", () => {
+        const { template } = parse("a{upper:{x}}");
+        const { segments } = renderWithMap(template, {
+            tags: builtinTags,
+            variables: { x: "b" },
+        });
+        expect(segments).toMatchObject([
+            { nodeKind: NodeKind.Text, outputStart: 0, outputEnd: 1 },
+            { nodeKind: NodeKind.Tag, tagName: "upper", outputStart: 1 },
+        ]);
+        expect(segments[0]).not.toHaveProperty("tagName");
+    });
+
+    it("maps the branch a structural tag chose to the nodes inside", () => {
+        const source = "{if:{vip}|Hi {name}, VIP|Hello}!";
+        expect(
+            mapped(source, { variables: { vip: "yes", name: "Ann" } }),
+        ).toEqual([
+            ["Hi ", "Hi "],
+            ["Ann", "{name}"],
+            [", VIP", ", VIP"],
+            ["!", "!"],
+        ]);
+        expect(mapped(source, { variables: {} })).toEqual([
+            ["Hello", "Hello"],
+            ["!", "!"],
+        ]);
+    });
+
+    it("maps text a tag rewrote to the tag", () => {
+        expect(mapped("<{upper:{x}}>", { variables: { x: "hi" } })).toEqual([
+            ["<", "<"],
+            ["HI", "{upper:{x}}"],
+            [">", ">"],
+        ]);
+    });
+
+    it("maps loop items and the text a tag added between them", () => {
+        expect(
+            mapped("{each:{items}|<{it}>|, }", {
+                variables: { items: [1, 2, 3] },
+            }),
+        ).toEqual([
+            ["<", "<"],
+            ["1", "{it}"],
+            [">", ">"],
+            [", ", ", "],
+            ["<", "<"],
+            ["2", "{it}"],
+            [">", ">"],
+            [", ", "{each:{items}|<{it}>|, }"],
+            ["<", "<"],
+            ["3", "{it}"],
+            [">", ">"],
+        ]);
+    });
+
+    it("maps long loops in time linear in the output", () => {
+        const items = Array.from({ length: 4_000 }, (_, i) => `i${i}`);
+        const { template } = parse(`{each:${items.join(",")}|{it}}`);
+        const start = performance.now();
+        const result = renderWithMap(template, { tags: builtinTags });
+        expect(performance.now() - start).toBeLessThan(1_000);
+        expect(result.output).toBe(items.join(""));
+        expectCoverage(result.output, result.segments);
+        expect(result.segments).toHaveLength(4_000);
+        expect(result.segments.at(-1)).toMatchObject({
+            outputStart: result.output.length - 5,
+            nodeKind: NodeKind.Variable,
+        });
+    });
+
+    it("maps repeated items in render order", () => {
+        expect(
+            mapped("{each:{xs}|{it}{x}|-}", {
+                variables: { xs: [1, 1], x: 1 },
+            }),
+        ).toEqual([
+            ["1", "{it}"],
+            ["1", "{x}"],
+            ["-", "-"],
+            ["1", "{it}"],
+            ["1", "{x}"],
+        ]);
+    });
+
+    it("maps macro output into the macro body", () => {
+        const source = "{define:badge|label|[{label}]}{badge:{rank}}";
+        expect(mapped(source, { variables: { rank: "gold" } })).toEqual([
+            ["[", "["],
+            ["gold", "{label}"],
+            ["]", "]"],
+        ]);
+    });
+
+    it("maps a partial as a whole to its {include}", () => {
+        expect(
+            mapped("> {include:card}", {
+                partials: { card: parse("<b>{x}</b>").template },
+                variables: { x: "y" },
+            }),
+        ).toEqual([
+            ["> ", "> "],
+            ["<b>y</b>", "{include:card}"],
+        ]);
+    });
+
+    it("maps escaped output and custom tags", () => {
+        const shout = defineValueTag((args) => `${String(args[0])}!`);
+        expect(
+            mapped("{x} {shout:{x}}", {
+                escape: "html",
+                variables: { x: "<a>" },
+                tags: { ...builtinTags, shout },
+            }),
+        ).toEqual([
+            ["&lt;a&gt;", "{x}"],
+            [" ", " "],
+            ["&lt;a&gt;!", "{shout:{x}}"],
+        ]);
+    });
+
+    it("returns the report in collect mode", () => {
+        const result = Template.compile("a{missing}").renderWithMap({
+            errorMode: "collect",
+        });
+        expect(result.output).toBe("a");
+        expect(result.report?.missingVariables).toMatchObject([
+            { name: "missing" },
+        ]);
+        expect(result.segments).toHaveLength(1);
+    });
+});
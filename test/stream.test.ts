@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { renderStream } from "../src/lib/compiler/RenderStream.js";
+import { Template } from "../src/lib/compiler/Template.js";
+import { RenderError } from "../src/lib/errors/Errors.js";
+import { renderReadable, toReadable } from "../src/lib/node/readable.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+
+async function collect(source: AsyncIterable<string>): Promise<string[]> {
+    const out: string[] = [];
+    for await (const chunk of source) out.push(chunk);
+    return out;
+}
+
+describe("renderStream", () => {
+    it("yields one chunk per top-level node", async () => {
+        const { template } = parse("Hi {user}, {upper:x}!");
+        const chunks = await collect(
+            renderStream(template, {
+                variables: { user: "A" },
+                tags: builtinTags,
+            }),
+        );
+        expect(chunks).toEqual(["Hi ", "A", ", ", "X", "!"]);
+    });
+
+    it("joins to the same output as renderAsync", async () => {
+        const tpl = Template.compile("{if:{x}|yes {each:a,b|<{it}>}|no}.");
+        const options = { variables: { x: "1" }, tags: builtinTags };
+        const chunks = await collect(tpl.renderStream(options));
+        expect(chunks.join("")).toBe(await tpl.renderAsync(options));
+    });
+
+    it("skips empty chunks", async () => {
+        const { template } = parse("a{missing}b");
+        expect(await collect(renderStream(template))).toEqual(["a", "b"]);
+    });
+
+    it("emits earlier chunks before a slow tag resolves", async () => {
+        let release: (v: string) => void = () => {};
+        const slow = new Promise<string>((r) => {
+            release = r;
+        });
+        const { template } = parse("first {slow:x}");
+        const it = renderStream(template, { tags: { slow: () => slow } })[
+            Symbol.asyncIterator
+        ]();
+
+        expect(await it.next()).toEqual({ value: "first ", done: false });
+        const pending = it.next();
+        release("last");
+        expect(await pending).toEqual({ value: "last", done: false });
+        expect((await it.next()).done).toBe(true);
+    });
+
+    it("reads ahead up to the concurrency limit", async () => {
+        let active = 0;
+        let max = 0;
+        const slow = async (args: readonly string[]) => {
+            active++;
+            max = Math.max(max, active);
+            await new Promise((r) => setTimeout(r, 5));
+            active--;
+            return args[0];
+        };
+        const { template } = parse("{s:a}{s:b}{s:c}{s:d}");
+        const chunks = await collect(
+            renderStream(template, { tags: { s: slow }, concurrency: 2 }),
+        );
+        expect(chunks).toEqual(["a", "b", "c", "d"]);
+        expect(max).toBe(2);
+    });
+
+    it("rejects at the failing node after yielding what came before", async () => {
+        const { template } = parse("ok {bad:x} never");
+        const it = renderStream(template, {
+            tags: {
+                bad: async () => {
+                    throw new Error("boom");
+                },
+            },
+        })[Symbol.asyncIterator]();
+        expect((await it.next()).value).toBe("ok ");
+        await expect(it.next()).rejects.toBeInstanceOf(RenderError);
+    });
+});
+
+describe("toReadable", () => {
+    it("adapts a chunk stream to a byte Readable", async () => {
+        const { template } = parse("Hello {user}!");
+        const readable = renderReadable(template, {
+            variables: { user: "Alice" },
+        });
+        const parts: Buffer[] = [];
+        for await (const part of readable) parts.push(part as Buffer);
+        expect(Buffer.concat(parts).toString("utf8")).toBe("Hello Alice!");
+    });
+
+    it("supports object mode", async () => {
+        const { template } = parse("a{b}c");
+        const readable = toReadable(
+            renderStream(template, { variables: { b: "B" } }),
+            { objectMode: true },
+        );
+        const parts: string[] = [];
+        for await (const part of readable) parts.push(part as string);
+        expect(parts).toEqual(["a", "B", "c"]);
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { RenderError } from "../src/lib/errors/Errors.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+
+function run(source: string, variables: Record<string, unknown> = {}) {
+    const { template } = parse(source);
+    const options = { variables, tags: builtinTags };
+    const out = render(template, options);
+    expect(compileToFunction(template)(options)).toBe(out);
+    return out;
+}
+
+const ranks = "{switch:{rank}|gold,platinum|VIP|silver|Member|Guest}";
+
+describe("{switch}", () => {
+    it("renders the first matching case or the default", () => {
+        expect(run(ranks, { rank: "gold" })).toBe("VIP");
+        expect(run(ranks, { rank: " platinum " })).toBe("VIP");
+        expect(run(ranks, { rank: "silver" })).toBe("Member");
+        expect(run(ranks, { rank: "Gold" })).toBe("Guest");
+        expect(run(ranks, { rank: "" })).toBe("Guest");
+    });
+
+    it("renders nothing without a match or a default", () => {
+        expect(run("{switch:{x}|a|A|b|B}", { x: "c" })).toBe("");
+        expect(run("{switch:{x}}", { x: "c" })).toBe("");
+    });
+
+    it("matches case-insensitively with mode=nocase", () => {
+        expect(
+            run("{switch:{role}|Admin,MOD|staff|user|mode=nocase}", {
+                role: "mod",
+            }),
+        ).toBe("staff");
+    });
+
+    it("matches numeric ranges with mode=range", () => {
+        const tpl =
+            "{switch:{level}|..0|none|1..9|low|10..49|mid|50..|high|mode=range}";
+        expect(run(tpl, { level: -3 })).toBe("none");
+        expect(run(tpl, { level: 9 })).toBe("low");
+        expect(run(tpl, { level: "10" })).toBe("mid");
+        expect(run(tpl, { level: 50.5 })).toBe("high");
+        expect(run(tpl, { level: "n/a" })).toBe("");
+        expect(
+            run("{switch:{n}|1,3,5..7|odd-ish|other|mode=range}", { n: 6 }),
+        ).toBe("odd-ish");
+    });
+
+    it("rejects unknown modes", () => {
+        const { template } = parse("{switch:{x}|a|A|mode=fuzzy}");
+        expect(() => render(template, { tags: builtinTags })).toThrow(
+            RenderError,
+        );
+        expect(() => render(template, { tags: builtinTags })).toThrow(
+            "Unknown {switch} mode 'fuzzy'; expected exact, nocase or range",
+        );
+    });
+
+    it("never evaluates other branches", async () => {
+        const calls: string[] = [];
+        const { template } = parse(
+            "{switch:{rank}|{label:a}|{out:A}|{label:b}|{out:B}|{label:c}|{out:C}|{out:default}}",
+        );
+        const tags = {
+            ...builtinTags,
+            label: ([v]: readonly string[]) => {
+                calls.push(`label:${v}`);
+                return v ?? "";
+            },
+            out: ([v]: readonly string[]) => {
+                calls.push(`out:${v}`);
+                return v ?? "";
+            },
+        };
+        const options = { variables: { rank: "b" }, tags };
+        expect(render(template, options)).toBe("B");
+        expect(calls).toEqual(["label:a", "label:b", "out:B"]);
+
+        calls.length = 0;
+        expect(
+            await renderAsync(template, {
+                tags,
+                variables: async (name: string) =>
+                    name === "rank" ? "z" : undefined,
+            }),
+        ).toBe("default");
+        expect(calls).toEqual(["label:a", "label:b", "label:c", "out:default"]);
+    });
+
+    it("works in block form", () => {
+        expect(
+            run("{#switch {rank}|gold,platinum}VIP{:else}Guest{/switch}", {
+                rank: "gold",
+            }),
+        ).toBe("VIP");
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
+import { Lexer } from "../src/lib/lexer/Lexer.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+import type { ParserOptions } from "../src/types.js";
+
+function run(
+    source: string,
+    variables: Record<string, unknown> = {},
+    options: ParserOptions = {},
+): string {
+    const { template } = parse(source, options);
+    return render(template, { variables, tags: builtinTags });
+}
+
+describe("trim markers", () => {
+    it("lex as part of the delimiters", () => {
+        const tokens = [...new Lexer("a {- x -} b")];
+        expect(tokens.map((t) => [t.kind, t.value, t.trim])).toEqual([
+            ["Text", "a ", undefined],
+            ["TagStart", "{- ", true],
+            ["Text", "x", undefined],
+            ["TagEnd", " -}", true],
+            ["Text", " b", undefined],
+            ["EOF", "", undefined],
+        ]);
+    });
+
+    it("strip whitespace on the marked side", () => {
+        const vars = { x: "X" };
+        expect(run("a \n {- x -} \n b", vars)).toBe("aXb");
+        expect(run("a {- x} b", vars)).toBe("aX b");
+        expect(run("a {x -} b", vars)).toBe("a Xb");
+    });
+
+    it("need whitespace next to the dash", () => {
+        expect(run("{-x}|{x-}", { "-x": 1, "x-": 2 })).toBe("1|2");
+        expect(run("{replace:a-b|-|+}")).toBe("a+b");
+    });
+
+    it("work on tags and blocks", () => {
+        const source =
+            "<ul>\n  {- #each {xs} -}\n  <li>{it}</li>\n  {- /each -}\n</ul>";
+        expect(run(source, { xs: ["a", "b"] })).toBe(
+            "<ul><li>a</li><li>b</li></ul>",
+        );
+        expect(run("{upper: {- x -} }", { x: "y" })).toBe("Y");
+    });
+
+    it("lex long whitespace runs inside a tag in one pass", () => {
+        const spaces = " ".repeat(100_000);
+        const start = performance.now();
+        const tokens = [...new Lexer(`{a:${spaces}x}{a:${spaces}-}`)];
+        expect(performance.now() - start).toBeLessThan(1_000);
+        expect(tokens.map((t) => [t.kind, t.value.length])).toEqual([
+            ["TagStart", 1],
+            ["Text", 1],
+            ["Colon", 1],
+            ["Text", 100_001],
+            ["TagEnd", 1],
+            ["TagStart", 1],
+            ["Text", 1],
+            ["Colon", 1],
+            ["TagEnd", 100_002],
+            ["EOF", 0],
+        ]);
+    });
+
+    it("keep spans on the original source", () => {
+        const { template } = parse("ab \n {- x -} \n cd");
+        expect(template.nodes).toMatchObject([
+            {
+                value: "ab",
+                span: {
+                    start: { line: 1, column: 1, offset: 0 },
+                    end: { line: 1, column: 3, offset: 2 },
+                },
+            },
+            {
+                name: "x",
+                span: {
+                    start: { line: 2, column: 2, offset: 5 },
+                    end: { line: 2, column: 9, offset: 12 },
+                },
+            },
+            {
+                value: "cd",
+                span: {
+                    start: { line: 3, column: 2, offset: 15 },
+                    end: { line: 3, column: 4, offset: 17 },
+                },
+            },
+        ]);
+    });
+});
+
+describe("trimBlocks", () => {
+    const source = [
+        "Members:",
+        "{#each {xs}}",
+        "  {#if {it.vip}}",
+        "  * {it.name}",
+        "  {:else}",
+        "  - {it.name}",
+        "  {/if}",
+        "{/each}",
+        "Done",
+    ].join("\n");
+    const xs = [
+        { name: "Ada", vip: true },
+        { name: "Bo", vip: false },
+    ];
+
+    it("removes lines holding only a block marker", () => {
+        expect(run(source, { xs }, { trimBlocks: true })).toBe(
+            "Members:\n  * Ada\n  - Bo\nDone",
+        );
+    });
+
+    it("is off by default", () => {
+        expect(run(source, { xs })).toContain("\n\n");
+    });
+
+    it("leaves markers sharing a line with text alone", () => {
+        expect(
+            run("a {#if {ok}}b{/if}\nc", { ok: "1" }, { trimBlocks: true }),
+        ).toBe("a b\nc");
+    });
+
+    it("handles markers at the start and end of input", () => {
+        expect(
+            run("{#if {ok}}\nyes\n{/if}", { ok: "1" }, { trimBlocks: true }),
+        ).toBe("yes\n");
+    });
+
+    it("keeps spans of trimmed text", () => {
+        const { template } = parse("a\n  {#if x}\nb\n{/if}\n", {
+            trimBlocks: true,
+        });
+        expect(template.nodes[0]).toMatchObject({
+            value: "a\n",
+            span: { end: { line: 2, column: 1, offset: 2 } },
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { compileToFunction } from "../src/lib/compiler/Codegen.js";
+import { defineValueTag, render } from "../src/lib/compiler/Render.js";
+import { renderAsync } from "../src/lib/compiler/RenderAsync.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import {
+    builtinTags,
+    gteTag,
+    lengthTag,
+    ltTag,
+} from "../src/lib/tags/builtins.js";
+
+const members = [
+    { name: "Ada", level: 12 },
+    { name: "Bo", level: 3 },
+];
+
+describe("value tags", () => {
+    it("receive a lone {var} argument unchanged", () => {
+        const seen: unknown[] = [];
+        const probe = defineValueTag((args) => {
+            seen.push(...args);
+            return "";
+        });
+        const { template } = parse("{probe:{xs}|{n}|n\\={n}|plain}");
+        render(template, {
+            variables: { xs: [1, 2], n: 5 },
+            tags: { probe },
+        });
+        expect(seen).toEqual([[1, 2], 5, "n=5", "plain"]);
+    });
+
+    it("receive another tag's result unchanged", () => {
+        const pick = defineValueTag((args) =>
+            members.slice(0, Number(args[0])),
+        );
+        const count = defineValueTag((args) =>
+            Array.isArray(args[0]) ? args[0].length : -1,
+        );
+        const { template } = parse("{count:{pick:1}}");
+        expect(render(template, { tags: { pick, count } })).toBe("1");
+    });
+
+    it("pass undefined for missing variables, or the fallback", () => {
+        const kind = defineValueTag((args) => typeof args[0]);
+        const { template } = parse("{kind:{nope}}");
+        expect(render(template, { tags: { kind } })).toBe("undefined");
+        expect(
+            render(template, { tags: { kind }, onMissingVariable: () => "?" }),
+        ).toBe("string");
+    });
+
+    it("stringify their result in output", () => {
+        const list = defineValueTag(() => ["a", "b"]);
+        const { template } = parse("{list:x}");
+        expect(render(template, { tags: { list } })).toBe('["a","b"]');
+    });
+
+    it("feed string-only tags through stringification", () => {
+        const list = defineValueTag(() => [1, 2]);
+        const { template } = parse("{upper:{list:x}}");
+        expect(render(template, { tags: { ...builtinTags, list } })).toBe(
+            "[1,2]",
+        );
+    });
+
+    it("compare numbers without a string round-trip", () => {
+        const { template } = parse("{if:{gte:{level}|10}|vip|regular}");
+        expect(
+            render(template, { variables: { level: 12 }, tags: builtinTags }),
+        ).toBe("vip");
+        expect(
+            render(template, { variables: { level: "9" }, tags: builtinTags }),
+        ).toBe("regular");
+    });
+
+    it("count array items with {length}", () => {
+        const { template } = parse("{length:{xs}} {length:{s}}");
+        expect(
+            render(template, {
+                variables: { xs: ["abc", "de"], s: "abc" },
+                tags: builtinTags,
+            }),
+        ).toBe("2 3");
+    });
+
+    it("keep the exported handlers callable with strings", () => {
+        const ctx = { data: undefined, locals: new Map(), depth: 0 };
+        expect(gteTag(["12", "10"], ctx, {})).toBe("true");
+        expect(ltTag(["a", "10"], ctx, {})).toBe("");
+        expect(lengthTag(["abc"], ctx, {})).toBe("3");
+    });
+});
+
+describe("{each} over values", () => {
+    it("iterates real objects with dotted locals", () => {
+        const { template } = parse(
+            "{each:{members}|{it.name} ({it.level})|, }",
+        );
+        expect(
+            render(template, { variables: { members }, tags: builtinTags }),
+        ).toBe("Ada (12), Bo (3)");
+    });
+
+    it("iterates other iterables", () => {
+        const { template } = parse("{each:{xs}|{it}|-}");
+        expect(
+            render(template, {
+                variables: { xs: new Set(["a", "b"]) },
+                tags: builtinTags,
+            }),
+        ).toBe("a-b");
+    });
+
+    it("compares item fields as numbers", () => {
+        const { template } = parse(
+            "{each:{members}|{if:{gt:{it.level}|10}|{it.name}}}",
+        );
+        expect(
+            render(template, { variables: { members }, tags: builtinTags }),
+        ).toBe("Ada");
+    });
+
+    it("still splits comma lists and JSON strings", () => {
+        const { template } = parse(
+            "{each:a, b|<{it}>} {each:{upper:{xs}}|{it}}",
+        );
+        expect(
+            render(template, {
+                variables: { xs: ["x", "y"] },
+                tags: builtinTags,
+            }),
+        ).toBe("<a><b> XY");
+    });
+
+    it("behaves the same compiled and async", async () => {
+        const { template } = parse("{each:{members}|{it.name}|,}");
+        const options = { variables: { members }, tags: builtinTags };
+        expect(compileToFunction(template)(options)).toBe("Ada,Bo");
+        expect(await renderAsync(template, options)).toBe("Ada,Bo");
+        expect(
+            await renderAsync(template, {
+                ...options,
+                variables: async () => members,
+                concurrency: 2,
+            }),
+        ).toBe("Ada,Bo");
+    });
+});
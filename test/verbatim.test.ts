@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
+import { Lexer } from "../src/lib/lexer/Lexer.js";
+import { parse } from "../src/lib/parser/Parser.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
+
+const raw = { rawTag: "raw" } as const;
+
+describe("{raw} regions", () => {
+    it("lex as one text token spanning the markers", () => {
+        const tokens = [...new Lexer('a{raw}{"x": {y}|z}\\{/raw}b', raw)];
+        expect(tokens.map((t) => [t.kind, t.value])).toEqual([
+            ["Text", "a"],
+            ["Text", '{"x": {y}|z}\\'],
+            ["Text", "b"],
+            ["EOF", ""],
+        ]);
+        expect(tokens[1]?.quoted).toBe(true);
+        expect(tokens[1]?.span.start.offset).toBe(1);
+        expect(tokens[1]?.span.end.offset).toBe(25);
+    });
+
+    it("render verbatim and merge with neighbouring text", () => {
+        const { template, diagnostics } = parse(
+            'JSON: {raw}{ "user": {name} }{/raw} for {name}',
+            raw,
+        );
+        expect(diagnostics).toEqual([]);
+        expect(render(template, { variables: { name: "Ada" } })).toBe(
+            'JSON: { "user": {name} } for Ada',
+        );
+    });
+
+    it("work inside tag arguments", () => {
+        const { template } = parse("{upper:{raw}a|b: {c}{/raw}}", raw);
+        expect(render(template, { tags: builtinTags })).toBe("A|B: {C}");
+    });
+
+    it("stop at the first closing marker", () => {
+        const { template, diagnostics } = parse("{raw}{raw}x{/raw}{/raw}", raw);
+        expect(template.nodes[0]).toMatchObject({ value: "{raw}x{/raw}" });
+        expect(diagnostics[0]?.message).toBe(
+            "Unexpected '{/raw}' outside a block",
+        );
+    });
+
+    it("report an unclosed region at its opening", () => {
+        const { template, diagnostics } = parse("a {raw} b", raw);
+        expect(diagnostics[0]).toMatchObject({
+            severity: "error",
+            message: "Unclosed raw block",
+            span: { start: { offset: 2 }, end: { offset: 7 } },
+            hint: "Expected '{/raw}' to end the verbatim region.",
+        });
+        expect(template.nodes[0]).toMatchObject({ value: "a {raw} b" });
+    });
+
+    it("look for the closing marker of unclosed regions only once", () => {
+        const source = `{raw}x{/raw}${"{raw}".repeat(20_000)}`;
+        const start = performance.now();
+        const tokens = [...new Lexer(source, raw)];
+        expect(performance.now() - start).toBeLessThan(1_000);
+        expect(tokens[0]).toMatchObject({ value: "x", quoted: true });
+        expect(tokens).toHaveLength(1 + 20_000 * 3 + 1);
+    });
+
+    it("leave the {raw:...} tag alone", () => {
+        const { template } = parse("{raw:{v}}", raw);
+        expect(
+            render(template, {
+                variables: { v: "<b>" },
+                tags: builtinTags,
+                escape: "html",
+            }),
+        ).toBe("<b>");
+    });
+
+    it("follow rawTag and custom delimiters", () => {
+        const options = { tagStart: "<%", tagEnd: "%>", rawTag: "verbatim" };
+        const { template } = parse("<%verbatim%><%x%><%/verbatim%>", options);
+        expect(template.nodes).toMatchObject([{ value: "<%x%>" }]);
+    });
+
+    it("are off by default", () => {
+        for (const options of [{}, { rawTag: false } as const]) {
+            const { template, diagnostics } = parse("{raw}{x}{/raw}", options);
+            expect(template.nodes).toHaveLength(3);
+            expect(diagnostics[0]?.message).toBe(
+                "Unexpected '{/raw}' outside a block",
+            );
+        }
+        const { template, diagnostics } = parse("Hi {raw}", { strict: true });
+        expect(diagnostics).toEqual([]);
+        expect(render(template, { variables: { raw: "Ada" } })).toBe("Hi Ada");
+    });
+});
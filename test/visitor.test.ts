@@ -1,15 +1,19 @@
 import { describe, expect, it } from "vitest";
+import { render } from "../src/lib/compiler/Render.js";
 import { parse } from "../src/lib/parser/Parser.js";
+import { print } from "../src/lib/printer/Printer.js";
+import { builtinTags } from "../src/lib/tags/builtins.js";
 import {
     collectTagNames,
     collectVariableNames,
     findNodes,
+    transform,
     walk,
 } from "../src/lib/visitor/Visitor.js";
 import { NodeKind } from "../src/types.js";
 
 function nodes(src: string) {
-    return parse(src).template.nodes;
+    return parse(src, { expressionTags: ["if"] }).template.nodes;
 }
 
 function nameOf(n: unknown): string {
@@ -143,3 +147,107 @@ describe("collectTagNames", () => {
         expect([...names].sort()).toEqual(["lower", "upper"]);
     });
 });
+
+describe("transform", () => {
+    it("returns the same tree when nothing changes", () => {
+        const tree = nodes("a {b} {upper:{c}|k=v} {if:x > 1|y}");
+        expect(transform(tree, {})).toBe(tree);
+        expect(transform(tree, { visitVariable: () => undefined })).toBe(tree);
+    });
+
+    it("renames variables and shares untouched subtrees", () => {
+        const tree = nodes("{user} {upper:{user}} {lower:{other}}");
+        const out = transform(tree, {
+            visitVariable: (n) =>
+                n.name === "user" ? { ...n, name: "member" } : undefined,
+        });
+        expect(print(out)).toBe("{member} {upper:{member}} {lower:{other}}");
+        expect(out[4]).toBe(tree[4]);
+        expect(print(tree)).toBe("{user} {upper:{user}} {lower:{other}}");
+    });
+
+    it("inlines constants and merges the text around them", () => {
+        const tree = nodes("Hi {name}, welcome to {server}!");
+        const out = transform(tree, {
+            visitVariable: (n) =>
+                n.name === "server"
+                    ? { kind: NodeKind.Text, value: "Guild", span: n.span }
+                    : undefined,
+        });
+        expect(out.map((n) => n.kind)).toEqual([
+            NodeKind.Text,
+            NodeKind.Variable,
+            NodeKind.Text,
+        ]);
+        expect(out[2]).toMatchObject({
+            value: ", welcome to Guild!",
+            span: { start: { offset: 9 }, end: { offset: 31 } },
+        });
+    });
+
+    it("migrates tag names with arguments already transformed", () => {
+        const tree = nodes("{uppercase:{uppercase:x}|k={uppercase:y}}");
+        const seen: string[] = [];
+        const out = transform(tree, {
+            visitTag(n) {
+                seen.push(print([n]));
+                return n.name === "uppercase"
+                    ? { ...n, name: "upper" }
+                    : undefined;
+            },
+        });
+        expect(print(out)).toBe("{upper:{upper:x}|k={upper:y}}");
+        expect(seen.at(-1)).toBe("{uppercase:{upper:x}|k={upper:y}}");
+    });
+
+    it("deletes nodes with null and splices in arrays", () => {
+        const tree = nodes("a{x}b{if:{x}|{y}}c");
+        const out = transform(tree, {
+            visitVariable: (n) =>
+                n.name === "x"
+                    ? null
+                    : [
+                          { kind: NodeKind.Text, value: "[", span: n.span },
+                          n,
+                          { kind: NodeKind.Text, value: "]", span: n.span },
+                      ],
+        });
+        expect(print(out)).toBe("ab{if:|[{y}]}c");
+        expect(out[0]).toMatchObject({ kind: NodeKind.Text, value: "ab" });
+    });
+
+    it("renames variables inside expressions with visitIdentifier", () => {
+        const tree = nodes("{if:level >= 10 and not muted|hi {level}|no}");
+        const lvl = (name: string) => (name === "level" ? "lvl" : undefined);
+        const out = transform(tree, {
+            visitVariable: (n) => {
+                const name = lvl(n.name);
+                return name ? { ...n, name } : undefined;
+            },
+            visitIdentifier: (n) => lvl(n.name),
+        });
+        expect(print(out)).toBe("{if:lvl >= 10 and not muted|hi {lvl}|no}");
+        const template = { ...parse("").template, nodes: out };
+        const tags = { if: builtinTags.if } as const;
+        expect(render(template, { variables: { lvl: 12 }, tags })).toBe(
+            "hi 12",
+        );
+        expect(() => transform(tree, { visitIdentifier: () => "not" })).toThrow(
+            TypeError,
+        );
+    });
+
+    it("passes walk()'s context", () => {
+        const contexts: unknown[] = [];
+        transform(nodes("{t:{a}|k={b}}"), {
+            visitVariable(_n, ctx) {
+                contexts.push([ctx.parent?.kind, ctx.depth, ctx.index]);
+                return undefined;
+            },
+        });
+        expect(contexts).toEqual([
+            [NodeKind.Argument, 2, 0],
+            [NodeKind.Argument, 2, 0],
+        ]);
+    });
+});
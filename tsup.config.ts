@@ -2,7 +2,7 @@ import { defineConfig } from "tsup";
 
 export default defineConfig([
     {
-        entry: ["src/index.ts", "src/discord.ts"],
+        entry: ["src/index.ts", "src/discord.ts", "src/node.ts"],
         format: ["esm"],
         outDir: "dist/esm",
         outExtension: () => ({ js: ".mjs", dts: ".d.mts" }),
@@ -13,7 +13,7 @@ export default defineConfig([
         target: "es2022",
     },
     {
-        entry: ["src/index.ts", "src/discord.ts"],
+        entry: ["src/index.ts", "src/discord.ts", "src/node.ts"],
         format: ["cjs"],
         outDir: "dist/cjs",
         outExtension: () => ({ js: ".cjs", dts: ".d.ts" }),
@@ -6,7 +6,7 @@ export default defineConfig({
             provider: "v8",
             include: ["src/**"],
             // Barrel files are pure re-exports — nothing meaningful to cover.
-            exclude: ["src/index.ts", "src/discord.ts"],
+            exclude: ["src/index.ts", "src/discord.ts", "src/node.ts"],
             reporter: ["text", "text-summary", "html", "lcov"],
             thresholds: {
                 statements: 75,